@@ -0,0 +1,301 @@
+import defineUseDependencyInjection from './index'
+
+import { describeKey } from './dependencies'
+import { warnDependency } from './diagnostics'
+import { disposeValue } from './dispose'
+import { DependencyNotInitializedError, DependencyValidationError } from './errors'
+import { runValidator } from './validate'
+
+import { shallowReactive } from 'vue-demi'
+
+import type { DefinedComposable, Dependencies, ResolvedDependencies, WithDependencies } from './dependencies'
+import type { BaseOptions, Options, OverrideOptions, UseInitiatedDependencyInjection, WithInjectDefault } from './index'
+import type { App } from 'vue-demi'
+
+/**
+ * State of an async dependency for injectors that can't await it
+ */
+export type AsyncDependencyHandle<T> = (
+  | { status: 'pending', value: undefined, error: undefined }
+  | { status: 'ready', value: T, error: undefined }
+  | { status: 'error', value: undefined, error: unknown }
+) & {
+  promise: Promise<T>
+}
+
+/**
+ * A composable for async dependency injection in a Vue component. It can be used in 'provide', 'provideLazy', 'inject' or 'handle' mode.
+ * In provide mode, the returned promise can be awaited in an async setup to suspend until the value is ready with `<Suspense>`
+ * In provideLazy mode, the initializer runs the first time the value is injected, and a getter of its promise is returned to the provider
+ * It is not initialized, so in provide mode, initializer needs to be passed in
+ * @param mode=inject - 'provide', 'provideLazy', 'inject' or 'handle'
+ * @param initializer - initializer for provide and provideLazy mode
+ * @param overrideOptions - override options for inject and handle mode
+ * @returns in handle mode, undefined when it is neither provided nor has an injectDefault
+ * @see defineUseAsyncDependencyInjection
+ */
+export interface UseAsyncDependencyInjection<T> {
+  (mode: 'provide', initializer: () => T | Promise<T>): Promise<NonNullable<T>>
+  (mode: 'provideLazy', initializer: () => T | Promise<T>): () => Promise<NonNullable<T>>
+
+  (): Promise<T>
+  (mode: 'inject'): Promise<T>
+
+  (mode: 'inject', overrideOptions: OverrideOptions<T>): Promise<NonNullable<T>>
+  (overrideOptions: OverrideOptions<T>): Promise<NonNullable<T>>
+
+  (mode: 'handle'): AsyncDependencyHandle<NonNullable<T>> | Extract<T, undefined>
+  (mode: 'handle', overrideOptions: OverrideOptions<T>): AsyncDependencyHandle<NonNullable<T>>
+
+  /**
+   * Provides the value at the app level
+   * @param app - the app to provide the value to
+   * @param initializer - initializer for the app level value
+   */
+  install: (app: App, initializer: () => T | Promise<T>) => Promise<NonNullable<T>>
+}
+
+/**
+ * A composable for async dependency injection in a Vue component. It can be used in 'provide', 'inject' or 'handle' mode.
+ * It is initialized, so in provide mode, initializer is not needed, and still can be passed in to override the default initializer
+ */
+export interface UseInitiatedAsyncDependencyInjection<T> extends UseAsyncDependencyInjection<T> {
+  (mode: 'provide'): Promise<NonNullable<T>>
+  (mode: 'provideLazy'): () => Promise<NonNullable<T>>
+
+  /**
+   * Provides the value at the app level, initializer can be passed in to override the default initializer
+   * @param app - the app to provide the value to
+   * @param initializer - initializer for the app level value
+   */
+  install: (app: App, initializer?: () => T | Promise<T>) => Promise<NonNullable<T>>
+}
+
+/**
+ * The composables providing the handles of async composables
+ */
+const handleComposables = new WeakMap<object, DefinedComposable>()
+
+export function getHandleComposable(composable: object) {
+  return handleComposables.get(composable)
+}
+
+/**
+ * Defines a composable for Vue that provides or injects a value initialized asynchronously.
+ *
+ * @template T - The type of the value to be provided or injected.
+ *
+ * @param options - Configuration options for the composable, the same as defineUseDependencyInjection.
+ *
+ * @returns A UseAsyncDependencyInjection function. Injectors get a promise of the value, or a handle with its state in 'handle' mode.
+ *
+ * @see defineUseDependencyInjection
+ */
+export function defineUseAsyncDependencyInjection<T extends NonNullable<unknown>>(
+  options?: BaseOptions<T>,
+): UseAsyncDependencyInjection<T | undefined>
+
+/**
+ * Defines a composable for Vue that provides or injects a value initialized asynchronously.
+ *
+ * @template T - The type of the value to be provided or injected.
+ *
+ * @param options - Configuration options for the composable, the same as defineUseDependencyInjection.
+ *
+ * @returns A UseAsyncDependencyInjection function. Injectors get a promise of the value, or a handle with its state in 'handle' mode.
+ *
+ * @see defineUseDependencyInjection
+ */
+export function defineUseAsyncDependencyInjection<T extends NonNullable<unknown>>(
+  options: Options<T>,
+): UseAsyncDependencyInjection<T>
+
+/**
+ * Defines a composable for Vue that provides or injects a value initialized asynchronously.
+ *
+ * @template T - The type of the value to be provided or injected.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param initializer - An optional async initializer for the value to be provided. Receives the resolved dependencies.
+ * @param options - Configuration options for the composable, the same as defineUseDependencyInjection.
+ *
+ * @returns A UseInitiatedAsyncDependencyInjection function. Injectors get a promise of the value, or a handle with its state in 'handle' mode.
+ *
+ * @example
+ * const useConfig = defineUseAsyncDependencyInjection(() => fetchConfig());
+ *
+ * // Providing in an async setup, wrapped in <Suspense>
+ * const parentComponent = defineComponent({
+ *   async setup() {
+ *     const config = await useConfig('provide');
+ *   }
+ * });
+ *
+ * // Injecting in an async setup
+ * const config = await useConfig();
+ * // Or injecting the handle when the setup can't await
+ * const configHandle = useConfig('handle');
+ *
+ * @see defineUseDependencyInjection
+ */
+export function defineUseAsyncDependencyInjection<T extends NonNullable<unknown>, D extends Dependencies = Record<string, never>>(
+  initializer: (dependencies: ResolvedDependencies<D>) => T | Promise<T>,
+  options?: BaseOptions<T> & Partial<WithDependencies<D>>,
+): UseInitiatedAsyncDependencyInjection<T | undefined>
+
+/**
+ * Defines a composable for Vue that provides or injects a value initialized asynchronously.
+ *
+ * @template T - The type of the value to be provided or injected.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param initializer - An optional async initializer for the value to be provided. Receives the resolved dependencies.
+ * @param options - Configuration options for the composable, the same as defineUseDependencyInjection.
+ *
+ * @returns A UseInitiatedAsyncDependencyInjection function. Injectors get a promise of the value, or a handle with its state in 'handle' mode.
+ *
+ * @see defineUseDependencyInjection
+ */
+export function defineUseAsyncDependencyInjection<T extends NonNullable<unknown>, D extends Dependencies = Record<string, never>>(
+  initializer: (dependencies: ResolvedDependencies<D>) => T | Promise<T>,
+  options: Partial<Options<T>> & Partial<WithDependencies<D>>,
+): UseInitiatedAsyncDependencyInjection<T>
+
+export function defineUseAsyncDependencyInjection<T extends NonNullable<unknown>>(
+  arg0: ((dependencies: Record<string, unknown>) => T | Promise<T>) | Partial<Options<T>> | undefined = undefined,
+  arg1: Partial<Options<T> & WithDependencies<Dependencies>> | undefined = undefined,
+): UseInitiatedAsyncDependencyInjection<T | undefined> {
+  if (arg0 != null && arg1 != null && typeof arg0 !== 'function') {
+    throw new TypeError('[defineUseAsyncDependencyInjection] first argument must be a initializer function when two arguments are provided')
+  }
+  const initializer = typeof arg0 === 'function' ? arg0 : undefined
+  const options = (typeof arg0 === 'function' ? arg1 : arg0) ?? {}
+
+  const { dispose, serialize, hydrate, migrate } = options
+  // without name, named after the key generated by the handle composable, or kept from the previous version with the hot option
+  let label = options.name
+  const check = (value: T) => checkValue(value, options, label!)
+  const handleOptions = {
+    ...options,
+    ...toHandleOptions(options),
+    // values are checked once resolved, not their handles
+    validate: undefined,
+    onInvalid: undefined,
+    // values are disposed once resolved, a provider torn down while pending disposes the value when it resolves
+    dispose: dispose != null && dispose !== false
+      ? (handle: AsyncDependencyHandle<T>) => handle.promise.then(value => disposeValue(value, dispose), () => {})
+      : undefined,
+    // values are serialized once resolved, and hydrated ready
+    serialize: serialize != null
+      ? (handle: AsyncDependencyHandle<T>) => handle.status === 'ready' ? serialize(handle.value as NonNullable<T>) : undefined
+      : undefined,
+    hydrate: hydrate != null ? (state: unknown) => createReadyHandle(check(hydrate(state))) : undefined,
+    // values are migrated once both are resolved
+    migrate: migrate != null
+      ? (previous: AsyncDependencyHandle<T>, handle: AsyncDependencyHandle<T>) => Promise.all([previous.promise, handle.promise])
+          .then(([previousValue, value]) => migrate(previousValue as NonNullable<T>, value as NonNullable<T>), () => {})
+      : undefined,
+  } as Partial<Options<AsyncDependencyHandle<T>>>
+  const useHandle = (
+    initializer != null
+      ? defineUseDependencyInjection<AsyncDependencyHandle<T>, Dependencies, string>(dependencies => createHandle(() => initializer(dependencies), label!, check), handleOptions)
+      : defineUseDependencyInjection<AsyncDependencyHandle<T>, string>(handleOptions as Options<AsyncDependencyHandle<T>>)
+  ) as UseInitiatedDependencyInjection<AsyncDependencyHandle<T> | undefined>
+  label ??= describeKey(useHandle.key)
+
+  const toHandleInitializer = (overrideInitializer: unknown, mode = 'provide') => {
+    if (overrideInitializer != null && typeof overrideInitializer !== 'function') {
+      throw new TypeError(`[useAsyncDependencyInjection] second argument must be a function when mode is '${mode}'`)
+    }
+    const load = overrideInitializer as (() => T | Promise<T>) | undefined
+    return load != null ? () => createHandle(load, label!, check) : undefined
+  }
+
+  const useAsyncDependencyInjection = function UseAsyncDependencyInjection($arg0: unknown, $arg1: unknown) {
+    // mode: 'provide'
+
+    if ($arg0 === 'provide') {
+      return useHandle('provide', toHandleInitializer($arg1)!).promise
+    }
+
+    // mode: 'provideLazy'
+
+    if ($arg0 === 'provideLazy') {
+      const getHandle = useHandle('provideLazy', toHandleInitializer($arg1, 'provideLazy')!)
+      return () => getHandle().promise
+    }
+
+    // mode: 'handle'
+
+    if ($arg0 === 'handle') {
+      return useHandle('inject', toHandleOptions(($arg1 ?? {}) as OverrideOptions<T>))
+    }
+
+    // mode: 'inject'
+
+    const overrideOptions = ($arg0 === 'inject' ? $arg1 : $arg0) ?? {}
+    const handle = useHandle('inject', toHandleOptions(overrideOptions as OverrideOptions<T>))
+    return handle?.promise ?? Promise.resolve(undefined)
+  } as UseInitiatedAsyncDependencyInjection<T | undefined>
+
+  useAsyncDependencyInjection.install = function install(app: App, overrideInitializer?: () => T | undefined | Promise<T | undefined>) {
+    return useHandle.install(app, toHandleInitializer(overrideInitializer)).promise
+  } as UseInitiatedAsyncDependencyInjection<T | undefined>['install']
+
+  handleComposables.set(useAsyncDependencyInjection, useHandle)
+  return useAsyncDependencyInjection
+}
+
+/**
+ * Maps the inject options of the value to the inject options of its handle
+ */
+function toHandleOptions<T>(options: Partial<OverrideOptions<T>>): OverrideOptions<AsyncDependencyHandle<T>> {
+  if (!('injectDefault' in options) || options.injectDefault == null) return options as OverrideOptions<AsyncDependencyHandle<T>>
+
+  const { injectDefault, defaultScope } = options as WithInjectDefault<T>
+  if (typeof injectDefault !== 'function') return { injectDefault: () => createReadyHandle(injectDefault), defaultScope }
+  return { injectDefault: () => createReadyHandle((injectDefault as () => T)()), defaultScope }
+}
+
+export function createReadyHandle<T>(value: T): AsyncDependencyHandle<T> {
+  return shallowReactive({ status: 'ready', value, error: undefined, promise: Promise.resolve(value) })
+}
+
+/**
+ * Checks a resolved value with the validate option, an invalid value falls back to the injectDefault of the options with onInvalid: 'default'
+ */
+function checkValue<T>(value: T, options: Partial<Options<T>>, label: string): T {
+  const { validate, onInvalid } = options
+  if (validate == null || value == null) return value
+
+  const result = runValidator(validate, value)
+  if (result.issues == null) return result.value
+  const error = new DependencyValidationError(label, result.issues)
+  if (onInvalid === 'warn') {
+    warnDependency(error.message)
+    return value
+  }
+  if (onInvalid === 'default' && 'injectDefault' in options && options.injectDefault != null) {
+    const { injectDefault } = options
+    return typeof injectDefault === 'function' ? (injectDefault as () => T)() : injectDefault
+  }
+  throw error
+}
+
+function createHandle<T>(load: () => T | Promise<T>, label: string, check: (value: T) => T): AsyncDependencyHandle<T> {
+  const handle = shallowReactive({ status: 'pending', value: undefined, error: undefined }) as AsyncDependencyHandle<T>
+  // the initializer is called synchronously, so it still runs in the setup of the provider
+  handle.promise = new Promise<T>(resolve => resolve(load())).then((value) => {
+    if (value == null) throw new DependencyNotInitializedError(label)
+    value = check(value)
+    Object.assign(handle, { status: 'ready', value })
+    return value
+  }).catch((error) => {
+    // after the then, so a value resolving to nullish is an error too
+    Object.assign(handle, { status: 'error', error })
+    throw error
+  })
+  // rejections are reported through the handle, injectors that await the promise still receive them
+  handle.promise.catch(() => {})
+  return handle
+}
@@ -0,0 +1,172 @@
+import { effectScope, getCurrentInstance, inject, provide } from 'vue-demi'
+
+import type { LookupOptions, OverrideOptions, UseDependencyInjection } from './index'
+import type { App, EffectScope, InjectionKey } from 'vue-demi'
+
+/**
+ * A standalone injection context, to provide and resolve defined composables outside of components,
+ * e.g. in Pinia stores, router guards or plain service modules
+ */
+export interface Container {
+  /**
+   * Provides the value of a composable to this container and its children
+   * @param composable - a composable defined by defineUseDependencyInjection
+   * @param initializer - initializer overriding the default one of the composable
+   */
+  provide: <T>(composable: UseDependencyInjection<T>, initializer?: () => T) => NonNullable<T>
+
+  /**
+   * Resolves the value of a composable from this container or its ancestors, with the same injectDefault and throwOnNoProvider behavior as in a component
+   * @param composable - a composable defined by defineUseDependencyInjection
+   * @param overrideOptions - override options for inject mode, e.g. `{ from: 'parent' }` to skip the values provided to this container
+   */
+  resolve: (<T>(composable: UseDependencyInjection<T>) => T)
+    & (<T>(composable: UseDependencyInjection<T>, overrideOptions: OverrideOptions<T>) => NonNullable<T>)
+    & (<T>(composable: UseDependencyInjection<T>, lookupOptions: LookupOptions) => T)
+
+  /**
+   * Runs a function with this container as the injection context, so composables called in it provide to and inject from the container
+   */
+  run: <R>(fn: () => R) => R
+
+  /**
+   * Creates a child container, that resolves from this container what it doesn't provide itself
+   */
+  createChild: () => Container
+
+  /**
+   * Disposes the values provided to this container with a dispose option
+   */
+  dispose: () => void
+}
+
+interface ContainerState {
+  provides: Record<string | symbol, unknown>
+  scope: EffectScope
+}
+
+let activeContainer: ContainerState | undefined
+let activeApp: App | undefined
+
+/**
+ * Creates a standalone injection context
+ * @example
+ * const container = createContainer();
+ * container.provide(useMyDependency);
+ *
+ * // In a Pinia store, router guard or service module
+ * const myDependency = container.resolve(useMyDependency);
+ * // Or calling composables in the container
+ * container.run(() => useMyDependency());
+ */
+export function createContainer(): Container {
+  return createContainerWithParent()
+}
+
+function createContainerWithParent(parent?: ContainerState): Container {
+  const provides: Record<string | symbol, unknown> = Object.create(parent?.provides ?? null)
+  const scope = parent?.scope.run(() => effectScope()) ?? effectScope(true)
+  const state = { provides, scope }
+
+  const run = <R>(fn: () => R): R => {
+    const previous = activeContainer
+    activeContainer = state
+    try {
+      return scope.run(fn) as R
+    }
+    finally {
+      activeContainer = previous
+    }
+  }
+
+  return {
+    provide: ((composable: (...args: unknown[]) => unknown, initializer?: unknown) => run(() => composable('provide', initializer))) as Container['provide'],
+    resolve: ((composable: (...args: unknown[]) => unknown, overrideOptions?: unknown) => run(() => composable('inject', overrideOptions))) as Container['resolve'],
+    run,
+    createChild: () => createContainerWithParent(state),
+    dispose: () => scope.stop(),
+  }
+}
+
+/**
+ * Runs a function in the injection context of an app, so composables called in it inject what the app provides.
+ * Requires `app.runWithContext`, added in Vue 3.3
+ * @example
+ * router.beforeEach(() => runInInjectionContext(app, () => useMyDependency()));
+ */
+export function runInInjectionContext<R>(app: App, fn: () => R): R {
+  if (typeof app?.runWithContext !== 'function') {
+    throw new TypeError('[runInInjectionContext] app.runWithContext is not available, it requires Vue 3.3 or later')
+  }
+  const previous = activeApp
+  activeApp = app
+  try {
+    return app.runWithContext(fn)
+  }
+  finally {
+    activeApp = previous
+  }
+}
+
+/**
+ * The app of the current component, or the one runInInjectionContext runs in, undefined outside of both.
+ * Vue 2 has no app, the root component stands for it
+ */
+export function getCurrentApp(): object | undefined {
+  const instance = getCurrentInstance()
+  if (instance == null) return activeApp
+  return instance.appContext?.app ?? instance.proxy?.$root ?? undefined
+}
+
+/**
+ * Provides to the active container, or to the current component otherwise
+ */
+export function provideInContext(key: InjectionKey<unknown> | string, value: unknown) {
+  if (activeContainer != null) activeContainer.provides[key as unknown as string | symbol] = value
+  else provide(key, value)
+}
+
+/**
+ * Where to look up a value: the nearest provider, the nearest one skipping the current container, or the outermost one
+ */
+export type InjectFrom = 'nearest' | 'parent' | 'root'
+
+/**
+ * Injects from the active container, or from the ancestors of the current component otherwise
+ */
+export function injectInContext(key: InjectionKey<unknown> | string, defaultValue: unknown, from: InjectFrom = 'nearest'): unknown {
+  // inject already skips the current component
+  if (activeContainer == null && from !== 'root') return inject(key, defaultValue)
+
+  const provides = activeContainer != null
+    ? (from === 'parent' ? Object.getPrototypeOf(activeContainer.provides) as Record<string | symbol, unknown> | null : activeContainer.provides)
+    : ancestorProvides()
+  // outside a component, the app level is the root
+  if (provides === undefined) return inject(key, defaultValue)
+
+  const property = key as unknown as string | symbol
+  if (from !== 'root') return provides != null && property in provides ? provides[property] : defaultValue
+
+  // provides inherit from the provides of the ancestors, so the outermost provider is the last one in the prototype chain
+  let value = defaultValue
+  for (let current = provides; current != null; current = Object.getPrototypeOf(current)) {
+    if (Object.prototype.hasOwnProperty.call(current, property)) value = current[property]
+  }
+  return value
+}
+
+/**
+ * The values provided to the current component by its ancestors and the app, undefined outside a component
+ */
+function ancestorProvides(): Record<string | symbol, unknown> | undefined {
+  const instance = getCurrentInstance() as { parent?: { provides?: Record<string | symbol, unknown> } | null, appContext?: { provides?: Record<string | symbol, unknown> } } | null
+  if (instance == null) return undefined
+  return instance.parent?.provides ?? instance.appContext?.provides
+}
+
+/**
+ * The values provided by the active container, including those of its ancestors
+ */
+export function getContainerProvides() {
+  return activeContainer?.provides
+}
@@ -0,0 +1,176 @@
+import { getContainerProvides } from './context'
+import { markInjected, warnDependency } from './diagnostics'
+import { __DEV__ } from './env'
+import { CircularDependencyError, DependencyNotProvidedError } from './errors'
+import { unwrapLazy } from './lazy'
+
+import { getCurrentInstance, inject } from 'vue-demi'
+
+import type { Lifetime } from './injectable'
+import type { App, InjectionKey } from 'vue-demi'
+
+/**
+ * A composable defined by defineUseDependencyInjection, whatever the type of its value
+ */
+export interface DefinedComposable {
+  (mode: 'provide', initializer?: () => never): unknown
+  (mode: 'inject'): unknown
+  install: (app: App, initializer: never) => unknown
+}
+
+/**
+ * Other defined composables that an initializer depends on, keyed by the name they are passed to the initializer with
+ */
+export type Dependencies = Record<string, DefinedComposable>
+
+/**
+ * The values passed to an initializer for its declared dependencies
+ */
+export type ResolvedDependencies<D extends Dependencies> = {
+  [K in keyof D]: ReturnType<D[K]['install']>
+}
+
+export interface WithDependencies<D extends Dependencies> {
+  dependencies: D
+}
+
+export type ProvideFunction = (key: InjectionKey<unknown> | string, value: unknown) => void
+
+/**
+ * What defineUseDependencyInjection knows about a defined composable
+ */
+export interface Definition<T> {
+  key: InjectionKey<T> | string
+  name?: string
+  initializer?: (dependencies: Record<string, unknown>) => T
+  dependencies?: Dependencies
+  /**
+   * With 'transient', set by defineInjectable, descendants get a factory constructing an instance each time they inject
+   */
+  lifetime?: Lifetime
+  /**
+   * Initializes and provides the value the same way the composable does in provide mode, with provideTo
+   * @param label - how the value is named in the circular dependency error
+   */
+  provide?: (provideTo: ProvideFunction, label: string) => T
+}
+
+const definitions = new WeakMap<object, Definition<unknown>>()
+
+export const NOT_PROVIDED = Symbol('NOT_PROVIDED')
+
+/**
+ * Definitions whose initializers are currently running, used to detect circular dependencies
+ */
+const resolving: { definition: Definition<unknown>, label: string }[] = []
+
+/**
+ * Definitions of the string keys, to warn when two composables use the same one in development
+ */
+const stringKeys = new Map<string, Definition<unknown>>()
+
+/**
+ * @param composable - the defined composable
+ * @param definition - its definition
+ * @param replaced - the definition of the previous version of the composable, replaced by a hot update
+ */
+export function registerDefinition<T>(composable: object, definition: Definition<T>, replaced?: Definition<T>) {
+  definitions.set(composable, definition)
+
+  const { key } = definition
+  if (__DEV__ && typeof key === 'string') {
+    const registered = stringKeys.get(key)
+    // composables wrapping another one share its definition, and the new version of a hot updated composable replaces the previous one
+    if (registered != null && registered !== definition && registered !== replaced) {
+      warnDependency(`key "${key}" is already used by another composable, their values override each other`)
+    }
+    stringKeys.set(key, definition)
+  }
+}
+
+export function getDefinition(composable: object): Definition<unknown> | undefined {
+  return definitions.get(composable)
+}
+
+export function describeKey(key: InjectionKey<unknown> | string): string {
+  return typeof key === 'string' ? key : key.toString()
+}
+
+/**
+ * Runs the initializer of a definition with its dependencies resolved.
+ * Dependencies are injected from ancestors, those not provided yet are initialized and provided with `provideTo`.
+ * @param definition - the definition to initialize
+ * @param provideTo - provides the dependencies initialized along the way
+ * @param label - how the definition is named in the circular dependency error
+ */
+export function initializeWithDependencies<T>(
+  definition: Definition<T>,
+  provideTo: ProvideFunction,
+  label: string = definition.name ?? describeKey(definition.key),
+): T | undefined {
+  return prepareInitializer(definition, provideTo, label)()
+}
+
+/**
+ * Resolves the dependencies of a definition now, and returns its initializer bound to them to be run later
+ * @see initializeWithDependencies
+ */
+export function prepareInitializer<T>(
+  definition: Definition<T>,
+  provideTo: ProvideFunction,
+  label: string = definition.name ?? describeKey(definition.key),
+): () => T | undefined {
+  const { initializer } = definition
+  if (initializer == null) return () => undefined
+
+  const index = resolving.findIndex(r => r.definition === definition)
+  if (index !== -1) {
+    const chain = [...resolving.slice(index).map(r => r.label), label]
+    throw new CircularDependencyError(chain)
+  }
+
+  resolving.push({ definition, label })
+  try {
+    const dependencies = resolveDependencies(definition.dependencies ?? {}, provideTo)
+    return () => initializer(dependencies)
+  }
+  finally {
+    resolving.pop()
+  }
+}
+
+/**
+ * Unlike inject, also sees the values provided by the current component itself
+ */
+function injectDependency(key: InjectionKey<unknown> | string): unknown {
+  const provides = getContainerProvides() ?? (getCurrentInstance() as { provides?: Record<string | symbol, unknown> } | null)?.provides
+  const property = key as unknown as string | symbol
+  if (provides != null) return property in provides ? unwrapLazy(provides[property]) : NOT_PROVIDED
+  return unwrapLazy(inject(key, NOT_PROVIDED))
+}
+
+function resolveDependencies(dependencies: Dependencies, provideTo: ProvideFunction) {
+  const resolved: Record<string, unknown> = {}
+  for (const [name, dependency] of Object.entries(dependencies)) {
+    const definition = definitions.get(dependency)
+    if (definition == null) {
+      throw new TypeError(`[useDependencyInjection] dependency \`${name}\` is not defined by defineUseDependencyInjection`)
+    }
+    // anonymous dependencies are named after the name they are declared with
+    const label = definition.name ?? (describeKey(definition.key) === 'Symbol()' ? name : describeKey(definition.key))
+
+    let value = injectDependency(definition.key)
+    if (__DEV__ && value !== NOT_PROVIDED) markInjected(definition.key, definition.key, true)
+    // provided through the composable, with its lifetime, readonly view, validation and interceptors
+    if (value === NOT_PROVIDED && definition.initializer != null && definition.provide != null) {
+      value = definition.provide(provideTo, label)
+    }
+    else if (value === NOT_PROVIDED) {
+      value = dependency('inject')
+    }
+    if (value == null) throw new DependencyNotProvidedError(label)
+
+    resolved[name] = value
+  }
+  return resolved
+}
@@ -0,0 +1,230 @@
+import { componentName, onAppUnmount, onTrack } from './tracking'
+
+import { setupDevtoolsPlugin } from '@vue/devtools-api'
+import { getCurrentScope, onScopeDispose } from 'vue-demi'
+
+import type { InjectEvent, InjectSource, ProvideEvent } from './tracking'
+import type { CustomInspectorNode, CustomInspectorState, InspectorNodeTag, PluginDescriptor } from '@vue/devtools-api'
+import type { App, ComponentInternalInstance, InjectionKey, Plugin } from 'vue-demi'
+
+const INSPECTOR_ID = 'vue-easy-di'
+
+/**
+ * Milliseconds the inspector waits for the provides and injects that follow before it is sent again
+ */
+const REFRESH_DELAY = 100
+
+interface InjectRecord {
+  id: string
+  instance: ComponentInternalInstance | null
+  source: InjectSource
+  value: unknown
+}
+
+interface ProviderRecord {
+  id: string
+  label: string
+  instance: ComponentInternalInstance | null
+  value: unknown
+  injects: InjectRecord[]
+}
+
+/**
+ * Injects that did not find a provider, grouped by dependency
+ */
+interface FallbackRecord {
+  id: string
+  label: string
+  injects: InjectRecord[]
+}
+
+const SOURCE_TAGS: Record<InjectSource, InspectorNodeTag> = {
+  provider: { label: 'provider', textColor: 0xFFFFFF, backgroundColor: 0x42B883 },
+  default: { label: 'injectDefault', textColor: 0xFFFFFF, backgroundColor: 0xFF9800 },
+  missing: { label: 'missing', textColor: 0xFFFFFF, backgroundColor: 0x9E9E9E },
+  threw: { label: 'throwOnNoProvider', textColor: 0xFFFFFF, backgroundColor: 0xF44336 },
+}
+
+/**
+ * A Vue devtools plugin adding a custom inspector for the provides and injects made through defined composables.
+ * It shows the providers grouped by component in the tree of components, the components that injected from each one and the injects that fell back to injectDefault or threw.
+ * @example
+ * import { devtoolsPlugin } from '@muxiu1997/vue-easy-di/devtools';
+ *
+ * if (import.meta.env.DEV) app.use(devtoolsPlugin);
+ */
+export const devtoolsPlugin: Plugin = {
+  install(app: App) {
+    const providers = new Map<string, ProviderRecord>()
+    const fallbacks = new Map<string, FallbackRecord>()
+    const records = new Map<string, ProviderRecord | FallbackRecord | InjectRecord>()
+
+    const keyIds = new Map<InjectionKey<unknown> | string, number>()
+    const keyId = (key: InjectionKey<unknown> | string) => {
+      if (!keyIds.has(key)) keyIds.set(key, keyIds.size)
+      return keyIds.get(key)!
+    }
+    const providerId = (key: InjectionKey<unknown> | string, instance: ComponentInternalInstance | null) =>
+      `provider:${keyId(key)}:${instance?.uid ?? 'app'}`
+
+    // set once the devtools are connected, unset once the app is unmounted
+    let sendInspector: (() => void) | undefined
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined
+    // mounting a tree of components provides and injects many times, the inspector is sent once after the last one
+    function refresh() {
+      if (sendInspector == null) return
+      clearTimeout(refreshTimer)
+      refreshTimer = setTimeout(sendInspector, REFRESH_DELAY)
+    }
+
+    function removeOnScopeDispose(remove: () => void) {
+      if (getCurrentScope() == null) return
+      onScopeDispose(() => {
+        remove()
+        refresh()
+      })
+    }
+
+    function onProvide(event: ProvideEvent) {
+      const id = providerId(event.key, event.instance)
+      const record = providers.get(id) ?? { id, label: event.label, instance: event.instance, value: event.value, injects: [] }
+      record.value = event.value
+      providers.set(id, record)
+      records.set(id, record)
+      removeOnScopeDispose(() => {
+        providers.delete(id)
+        records.delete(id)
+      })
+    }
+
+    let injectCount = 0
+    function onInject(event: InjectEvent) {
+      const record: InjectRecord = { id: `inject:${injectCount++}`, instance: event.instance, source: event.source, value: event.value }
+      let parent: ProviderRecord | FallbackRecord
+      if (event.provider !== undefined) {
+        const id = providerId(event.key, event.provider)
+        // provided before the plugin was installed
+        parent = providers.get(id) ?? { id, label: event.label, instance: event.provider, value: event.value, injects: [] }
+        providers.set(id, parent as ProviderRecord)
+      }
+      else {
+        const id = `fallback:${keyId(event.key)}`
+        parent = fallbacks.get(id) ?? { id, label: event.label, injects: [] }
+        fallbacks.set(id, parent)
+      }
+      records.set(parent.id, parent)
+      records.set(record.id, record)
+      parent.injects.push(record)
+      removeOnScopeDispose(() => {
+        parent.injects.splice(parent.injects.indexOf(record), 1)
+        records.delete(record.id)
+      })
+    }
+
+    const stop = onTrack((event) => {
+      const eventApp = event.type === 'provide' && event.app != null ? event.app : event.instance?.appContext?.app
+      if (eventApp !== app) return
+
+      if (event.type === 'provide') onProvide(event)
+      else onInject(event)
+      refresh()
+    })
+    onAppUnmount(app, () => {
+      stop()
+      clearTimeout(refreshTimer)
+      sendInspector = undefined
+    })
+
+    // typed up front, so the descriptor is not narrowed through the whole type of the app
+    const descriptor: PluginDescriptor = {
+      id: INSPECTOR_ID,
+      label: 'Vue Easy DI',
+      packageName: '@muxiu1997/vue-easy-di',
+      homepage: 'https://github.com/MuXiu1997/vue-easy-di',
+      app,
+    }
+    setupDevtoolsPlugin(descriptor, (api) => {
+      api.addInspector({
+        id: INSPECTOR_ID,
+        label: 'Dependencies',
+        icon: 'account_tree',
+        treeFilterPlaceholder: 'Search dependencies',
+      })
+
+      sendInspector = () => {
+        api.sendInspectorTree(INSPECTOR_ID)
+        api.sendInspectorState(INSPECTOR_ID)
+      }
+
+      const toInjectNode = (record: InjectRecord): CustomInspectorNode => ({
+        id: record.id,
+        label: componentName(record.instance),
+        tags: [SOURCE_TAGS[record.source]],
+      })
+
+      api.on.getInspectorTree((payload) => {
+        if (payload.app !== app || payload.inspectorId !== INSPECTOR_ID) return
+
+        const filter = payload.filter.toLowerCase()
+        const matches = (label: string) => label.toLowerCase().includes(filter)
+
+        // the providers of a component are grouped under a node of the component
+        const componentNodes = new Map<ComponentInternalInstance | null, CustomInspectorNode & { children: CustomInspectorNode[] }>()
+        for (const record of [...providers.values()].filter(record => matches(record.label))) {
+          let componentNode = componentNodes.get(record.instance)
+          if (componentNode == null) {
+            componentNode = { id: `component:${record.instance?.uid ?? 'app'}`, label: componentName(record.instance), children: [] }
+            componentNodes.set(record.instance, componentNode)
+          }
+          componentNode.children.push({ id: record.id, label: record.label, children: record.injects.map(toInjectNode) })
+        }
+        // components are nested under their nearest providing ancestor
+        const rootNodes: CustomInspectorNode[] = []
+        for (const [instance, componentNode] of componentNodes) {
+          let ancestor = instance?.parent ?? null
+          while (ancestor != null && !componentNodes.has(ancestor)) ancestor = ancestor.parent
+          if (ancestor != null) componentNodes.get(ancestor)!.children.push(componentNode)
+          else rootNodes.push(componentNode)
+        }
+
+        payload.rootNodes = [
+          ...rootNodes,
+          ...[...fallbacks.values()].filter(record => matches(record.label) && record.injects.length > 0).map(record => ({
+            id: record.id,
+            label: record.label,
+            tags: [{ label: 'no provider', textColor: 0xFFFFFF, backgroundColor: 0x9E9E9E }],
+            children: record.injects.map(toInjectNode),
+          })),
+        ]
+      })
+
+      api.on.getInspectorState((payload) => {
+        if (payload.app !== app || payload.inspectorId !== INSPECTOR_ID) return
+
+        const record = records.get(payload.nodeId)
+        if (record == null) return
+        const state: CustomInspectorState = {}
+        if ('source' in record) {
+          state.injected = [
+            { key: 'component', value: componentName(record.instance) },
+            { key: 'source', value: record.source },
+            { key: 'value', value: record.value },
+          ]
+        }
+        else if ('value' in record) {
+          state.provided = [
+            { key: 'dependency', value: record.label },
+            { key: 'provider', value: componentName(record.instance) },
+            { key: 'value', value: record.value },
+          ]
+        }
+        else {
+          state.fallback = [{ key: 'dependency', value: record.label }]
+        }
+        payload.state = state
+      })
+
+      sendInspector()
+    })
+  },
+}
@@ -0,0 +1,170 @@
+import { getContainerProvides } from './context'
+import { isProviderComponent } from './provider'
+import { componentName, findProvider, getComponentHierarchy } from './tracking'
+
+import * as Vue from 'vue-demi'
+
+import type { ComponentInternalInstance, InjectionKey } from 'vue-demi'
+
+type Key = InjectionKey<unknown> | string
+
+/**
+ * What a component, or a container, did with each key during its setup
+ */
+interface Usage {
+  provided: Set<Key>
+  injected: Set<Key>
+}
+
+const usages = new WeakMap<object, Usage>()
+
+/**
+ * Keys provided by each component and injected by at least one of its descendants
+ */
+const injectedFrom = new WeakMap<ComponentInternalInstance, Set<Key>>()
+
+const PROVIDE_MODES = new Set<unknown>(['provide', 'provideLazy', 'provideReactive', 'extend'])
+
+/**
+ * How many calls made by the library itself are running, like the multi composables calling their contributions composable
+ */
+let internalCalls = 0
+
+/**
+ * Passes a warning to the warnHandler of the app, or to the warn of Vue otherwise.
+ * Vue only knows the component of a warning during its setup and render, not when it is unmounted
+ */
+export function warnDependency(message: string, instance: ComponentInternalInstance | null = Vue.getCurrentInstance()) {
+  const formatted = `[useDependencyInjection] ${message}`
+  const handler = instance?.appContext?.config.warnHandler
+  if (handler != null) {
+    handler(formatted, instance!.proxy, getComponentHierarchy(instance).map(name => `at ${name}`).join('\n'))
+    return
+  }
+  // warn is not exported by every Vue version supported by vue-demi
+  const { warn } = Vue as { warn?: (message: string) => void }
+  if (warn != null) warn(formatted)
+  else console.warn(`[Vue warn]: ${formatted}`)
+}
+
+/**
+ * Whether inject can run now: in setup, in a functional component, or in `app.runWithContext`
+ */
+function hasInjectionContext() {
+  // added in Vue 3.3, only the current component is known before
+  const { hasInjectionContext } = Vue as { hasInjectionContext?: () => boolean }
+  return hasInjectionContext?.() ?? Vue.getCurrentInstance() != null
+}
+
+function getUsage(owner: object): Usage {
+  let usage = usages.get(owner)
+  if (usage == null) {
+    usage = { provided: new Set(), injected: new Set() }
+    usages.set(owner, usage)
+  }
+  return usage
+}
+
+/**
+ * Runs a function calling composables on behalf of the library, without diagnosing these calls
+ */
+export function callInternally<R>(fn: () => R): R {
+  internalCalls++
+  try {
+    return fn()
+  }
+  finally {
+    internalCalls--
+  }
+}
+
+/**
+ * Checks a call of a composable for the mistakes that fail silently: calls outside of setup,
+ * a component injecting what it provides itself, providing the same dependency twice, and with expectInjected, providers never injected.
+ * Only called in development
+ * @param label - the name of the composable in the warnings
+ * @param key - the key of the composable
+ * @param args - the arguments of the call
+ * @param expectInjected - whether to warn when the provider is unmounted without being injected
+ */
+export function diagnoseCall(label: string, key: Key, args: unknown[], expectInjected = false) {
+  const container = getContainerProvides()
+  if (container == null && !hasInjectionContext()) {
+    warnDependency(`\`${label}\` was called outside of setup, it can neither provide nor inject. `
+      + 'Call it synchronously in setup, before any await, or in a container or runInInjectionContext.')
+    return
+  }
+
+  if (internalCalls > 0) return
+  const [mode] = args
+  const instance = Vue.getCurrentInstance()
+  // Vue 2 creates another internal instance for each call, around the same public one
+  const owner = container ?? instance?.proxy ?? instance
+  // provideOrInject injects and provides on purpose, outside of components there is no owner
+  if (owner == null || mode === 'provideOrInject') return
+  const usage = getUsage(owner)
+  const where = () => container != null ? 'the same container' : `the same component ${componentName(instance)}`
+
+  if (PROVIDE_MODES.has(mode)) {
+    if (usage.provided.has(key)) {
+      warnDependency(`\`${label}\` was provided twice by ${where()}, the second value replaces the first one for every descendant. `
+        + 'Provide it once, or in a child component to override it for a subtree.')
+    }
+    // a container overriding what it resolved from its parent is how child containers are set up
+    if (container == null && usage.injected.has(key)) {
+      warnDependency(`\`${label}\` was injected before being provided by ${where()}, the inject does not see the value provided afterwards. `
+        + 'Use the value returned by \'provide\' instead, or \'provideOrInject\'.')
+    }
+    usage.provided.add(key)
+    // the injects are only traced through the provides of Vue 3 instances
+    if (expectInjected && container == null && instance != null && 'provides' in instance && !isProviderComponent(instance.type)) {
+      warnWhenNeverInjected(label, key, instance)
+    }
+    return
+  }
+
+  const lookupOptions = (mode === 'inject' ? args[1] : mode) as { from?: string } | undefined
+  // looking past the nearest provider is how a component reaches the value it overrides
+  if (lookupOptions?.from != null && lookupOptions.from !== 'nearest') return
+  // a container injects its own values, a component does not
+  if (container == null && usage.provided.has(key)) {
+    warnDependency(`\`${label}\` was injected after being provided by ${where()}, a component does not inject its own values so it got the value of an ancestor. `
+      + 'Use the value returned by \'provide\' instead, or inject it with { from: \'parent\' } if the value of the ancestor is intended.')
+  }
+  usage.injected.add(key)
+}
+
+/**
+ * Warns when the component is unmounted if none of its descendants injected the key through the composables
+ */
+function warnWhenNeverInjected(label: string, key: Key, instance: ComponentInternalInstance) {
+  let injected = injectedFrom.get(instance)
+  if (injected == null) {
+    injected = new Set()
+    injectedFrom.set(instance, injected)
+  }
+  Vue.onScopeDispose(() => {
+    if (injectedFrom.get(instance)?.has(key)) return
+    warnDependency(`\`${label}\` was provided by ${componentName(instance)} but never injected by its subtree. `
+      + 'Remove the \'provide\' call, or check that the components injecting it are descendants of the provider.', instance)
+  })
+}
+
+/**
+ * Records that the current component injected a key from its provider, so the provider is not reported as unused.
+ * Only called in development
+ * @param lookupKey - the key the value was injected with, the scoped key when injected from a scope
+ * @param key - the key of the composable, the one the provider is checked for
+ * @param includeOwn - whether the current component sees its own values, like the dependencies of an initializer
+ */
+export function markInjected(lookupKey: Key, key: Key = lookupKey, includeOwn = false) {
+  const instance = Vue.getCurrentInstance()
+  // Vue 2 does not expose the provides to trace the provider
+  if (instance == null || !('provides' in instance)) return
+  const { provides } = instance as { provides?: Record<string | symbol, unknown> }
+  const parentProvides = (instance.parent as { provides?: Record<string | symbol, unknown> } | null)?.provides
+  const property = lookupKey as unknown as string | symbol
+  const own = includeOwn && provides != null && provides !== parentProvides && Object.prototype.hasOwnProperty.call(provides, property)
+  const provider = own ? instance : findProvider(instance, lookupKey)
+  if (provider != null) injectedFrom.get(provider)?.add(key)
+}
@@ -0,0 +1,31 @@
+import { getCurrentScope, onScopeDispose } from 'vue-demi'
+
+/**
+ * How a provided value is disposed when the scope that provided it is disposed.
+ * `true` calls `[Symbol.dispose]()` or `dispose()` of the value, a function is called with the value
+ */
+export type Dispose<T> = boolean | ((value: T) => void)
+
+/**
+ * Disposes the value when the current effect scope, e.g. the one of the providing component, is disposed
+ * @param value - the provided value
+ * @param dispose - how the value is disposed
+ */
+export function disposeOnScopeDispose<T>(value: T, dispose: Dispose<T> | undefined) {
+  if (dispose == null || dispose === false || getCurrentScope() == null) return
+
+  onScopeDispose(() => disposeValue(value, dispose))
+}
+
+export function disposeValue<T>(value: T, dispose: Dispose<T>) {
+  if (dispose === false) return
+  if (typeof dispose === 'function') return dispose(value)
+
+  const disposable = value as Partial<Disposable> & { dispose?: () => void }
+  if (typeof Symbol.dispose === 'symbol' && typeof disposable[Symbol.dispose] === 'function') {
+    disposable[Symbol.dispose]!()
+  }
+  else if (typeof disposable.dispose === 'function') {
+    disposable.dispose()
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Whether the development checks run. They are removed from production builds, where the bundler of the app replaces NODE_ENV,
+ * and from the umd bundle, built with NODE_ENV replaced
+ */
+// eslint-disable-next-line node/prefer-global/process -- bundlers replace the global process.env.NODE_ENV, not the one imported from node:process
+export const __DEV__ = process.env.NODE_ENV !== 'production'
@@ -0,0 +1,87 @@
+import { getComponentHierarchy } from './tracking'
+import { describeIssue } from './validate'
+
+import type { StandardSchemaV1 } from './validate'
+
+/**
+ * Base class of the errors thrown for a dependency, carrying its name and the component hierarchy where it was looked up
+ */
+export class DependencyInjectionError extends Error {
+  override name = 'DependencyInjectionError'
+
+  /**
+   * @param message - the message, the component hierarchy is appended to it
+   * @param dependencyName - the name of the dependency
+   * @param componentHierarchy - names of the components from where the lookup failed up to the root
+   */
+  constructor(
+    message: string,
+    readonly dependencyName: string,
+    readonly componentHierarchy: string[] = getComponentHierarchy(),
+  ) {
+    super(componentHierarchy.length > 0 ? `${message}\n${componentHierarchy.map(c => `  at ${c}`).join('\n')}` : message)
+  }
+}
+
+/**
+ * Thrown when providing a dependency whose initializer is missing or returns nullish
+ */
+export class DependencyNotInitializedError extends DependencyInjectionError {
+  override name = 'DependencyNotInitializedError'
+
+  constructor(dependencyName: string, hierarchy?: string[]) {
+    super(`UseDependencyInjection value \`${dependencyName}\` is not initialized`, dependencyName, hierarchy)
+  }
+}
+
+/**
+ * Thrown when injecting a dependency that no ancestor provides, with `throwOnNoProvider: true`
+ */
+export class DependencyNotProvidedError extends DependencyInjectionError {
+  override name = 'DependencyNotProvidedError'
+
+  constructor(dependencyName: string, hierarchy?: string[]) {
+    super(`UseDependencyInjection value \`${dependencyName}\` is not provided`, dependencyName, hierarchy)
+  }
+}
+
+/**
+ * Thrown when the dependencies of initializers form a cycle
+ */
+export class CircularDependencyError extends DependencyInjectionError {
+  override name = 'CircularDependencyError'
+
+  /**
+   * @param chain - names of the dependencies forming the cycle, the first one repeated at the end
+   */
+  constructor(readonly chain: string[], hierarchy?: string[]) {
+    super(`[useDependencyInjection] circular dependency detected: ${chain.join(' -> ')}`, chain[0], hierarchy)
+  }
+}
+
+/**
+ * Thrown in strict mode of the testing helpers, when a component injects a dependency that is neither mocked nor provided in the mounted tree
+ */
+export class DependencyNotMockedError extends DependencyInjectionError {
+  override name = 'DependencyNotMockedError'
+
+  constructor(dependencyName: string, hierarchy?: string[]) {
+    super(`UseDependencyInjection value \`${dependencyName}\` is not mocked`, dependencyName, hierarchy)
+  }
+}
+
+/**
+ * Thrown when a provided or injected value fails the validate option
+ */
+export class DependencyValidationError extends DependencyInjectionError {
+  override name = 'DependencyValidationError'
+
+  /**
+   * @param dependencyName - the name of the dependency
+   * @param issues - the issues found by the type guard or the schema
+   * @param hierarchy - names of the components from where the value was checked up to the root
+   */
+  constructor(dependencyName: string, readonly issues: ReadonlyArray<StandardSchemaV1.Issue>, hierarchy?: string[]) {
+    super(`UseDependencyInjection value \`${dependencyName}\` is invalid: ${issues.map(describeIssue).join(', ')}`, dependencyName, hierarchy)
+  }
+}
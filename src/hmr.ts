@@ -0,0 +1,73 @@
+import { getCurrentScope, onScopeDispose } from 'vue-demi'
+
+import type { Definition } from './dependencies'
+import type { InjectionKey } from 'vue-demi'
+
+/**
+ * The part of the HMR API of Vite, `import.meta.hot`, used to keep composables across hot updates
+ */
+export interface HotContext {
+  readonly data: Record<string, unknown>
+}
+
+/**
+ * What a version of a module keeps for the next one, in `hot.data`
+ */
+interface HotRecord<T> {
+  key: InjectionKey<T> | string
+  definition: Definition<T>
+  /** the values provided by this version and still in use */
+  provided: T[]
+  /** the values provided by the previous version, migrated in order to the values provided by this one */
+  pending: T[]
+}
+
+/**
+ * How many anonymous composables were defined by each evaluation of a module, `import.meta.hot` is created for each evaluation
+ */
+const anonymousCounts = new WeakMap<HotContext, number>()
+
+/**
+ * Identifies a composable among the ones defined in a module, by its name, or by its order otherwise
+ */
+export function getHotId(hot: HotContext, name: string | undefined): string {
+  if (name != null) return `vue-easy-di:${name}`
+
+  const index = anonymousCounts.get(hot) ?? 0
+  anonymousCounts.set(hot, index + 1)
+  return `vue-easy-di:#${index}`
+}
+
+export function getHotRecord<T>(hot: HotContext, id: string): HotRecord<T> | undefined {
+  return hot.data[id] as HotRecord<T> | undefined
+}
+
+/**
+ * Records the definition of the new version of a composable, taking over the values provided by the previous version
+ */
+export function createHotRecord<T>(hot: HotContext, id: string, definition: Definition<T>): HotRecord<T> {
+  const previous = getHotRecord<T>(hot, id)
+  // copied, as the providers of the previous version may be unmounted before the new ones are mounted
+  const record: HotRecord<T> = { key: definition.key, definition, provided: [], pending: [...previous?.provided ?? []] }
+  hot.data[id] = record
+  return record
+}
+
+/**
+ * Migrates the oldest value provided by the previous version to a value provided by the new one, and tracks the value until its provider is disposed
+ * @param record - the record of the composable
+ * @param value - the provided value
+ * @param migrate - moves the state of the previous value to the new one
+ */
+export function migrateHotValue<T>(record: HotRecord<T>, value: T, migrate: ((previous: T, value: T) => void) | undefined) {
+  const previous = record.pending.shift()
+  if (previous != null && previous !== value) migrate?.(previous, value)
+
+  record.provided.push(value)
+  if (getCurrentScope() != null) {
+    onScopeDispose(() => {
+      const index = record.provided.indexOf(value)
+      if (index !== -1) record.provided.splice(index, 1)
+    })
+  }
+}
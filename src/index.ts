@@ -1,47 +1,338 @@
-import { inject, provide } from 'vue-demi'
+import { getCurrentApp, injectInContext, provideInContext } from './context'
+import { NOT_PROVIDED, describeKey, initializeWithDependencies, prepareInitializer, registerDefinition } from './dependencies'
+import { diagnoseCall, markInjected, warnDependency } from './diagnostics'
+import { disposeOnScopeDispose, disposeValue } from './dispose'
+import { __DEV__ } from './env'
+import { DependencyNotInitializedError, DependencyNotProvidedError, DependencyValidationError } from './errors'
+import { createHotRecord, getHotId, getHotRecord, migrateHotValue } from './hmr'
+import { interceptError, interceptInject, interceptProvide } from './interceptors'
+import { LazyValue, TransientValue, unwrapLazy } from './lazy'
+import { createMixinFactory } from './mixin'
+import { createProvider } from './provider'
+import { createHandle, createSwappableRef, isHandle } from './reactive'
+import { initializeWithState } from './ssr'
+import { findProvider, isTracking, track } from './tracking'
+import { runValidator } from './validate'
 
-import type { InjectionKey } from 'vue-demi'
+import { getCurrentInstance, readonly } from 'vue-demi'
+
+import type { InjectFrom } from './context'
+import type { Definition, Dependencies, ProvideFunction, ResolvedDependencies, WithDependencies } from './dependencies'
+import type { Dispose } from './dispose'
+import type { HotContext } from './hmr'
+import type { DependencyMixin } from './mixin'
+import type { DependencyProvider } from './provider'
+import type { WithSerialize } from './ssr'
+import type { InjectSource } from './tracking'
+import type { WithValidate } from './validate'
+import type { App, InjectionKey, Ref } from 'vue-demi'
+
+export { defineUseAsyncDependencyInjection } from './async'
+export type { AsyncDependencyHandle, UseAsyncDependencyInjection, UseInitiatedAsyncDependencyInjection } from './async'
+export type { DefinedComposable, Dependencies, ResolvedDependencies, WithDependencies } from './dependencies'
+export { createContainer, runInInjectionContext } from './context'
+export type { Container, InjectFrom } from './context'
+export { createToken, defineInjectable } from './injectable'
+export type { InjectableDependency, InjectableOptions, InjectionToken, Lifetime, ResolvedInjectableDependencies } from './injectable'
+export { defineUseLoadedDependencyInjection } from './loader'
+export type { InitializerModule, UseLoadedDependencyInjection } from './loader'
+export { defineUseMultiDependencyInjection } from './multi'
+export type { MultiOptions, UseInitiatedMultiDependencyInjection, UseMultiDependencyInjection } from './multi'
+export { CircularDependencyError, DependencyInjectionError, DependencyNotInitializedError, DependencyNotProvidedError, DependencyValidationError } from './errors'
+export type { Dispose } from './dispose'
+export type { HotContext } from './hmr'
+export { addInterceptor, createInterceptorPlugin } from './interceptors'
+export type { Interceptor, ProvideInfo } from './interceptors'
+export type { InvalidPolicy, StandardSchemaV1, Validator, WithValidate } from './validate'
+export type { DependencyMixin } from './mixin'
+export { DependencyProviders } from './provider'
+export type { DependencyProvider, ProviderEntry } from './provider'
+export { createDependencyState } from './ssr'
+export type { DependencyState, WithSerialize } from './ssr'
+
+/**
+ * How often a factory injectDefault is called: for each inject, once per app, or once for the module
+ */
+export type DefaultScope = 'per-inject' | 'app' | 'module'
 
 export interface WithInjectDefault<T> {
   injectDefault: T | (() => T)
+  /**
+   * Whether injects without provider share the value of a factory injectDefault, defaults to 'per-inject'.
+   * The value is shared by composable key, also with the injectDefaults of the override options.
+   * Outside of components and runInInjectionContext, 'app' defaults are not shared
+   */
+  defaultScope?: DefaultScope
 }
 
 export interface WithThrowOnNoProvider {
-  throwOnNoProvider: () => Error
+  /**
+   * A function returning the error to throw, or `true` to throw a DependencyNotProvidedError
+   */
+  throwOnNoProvider: true | (() => Error)
+}
+
+/**
+ * The types of the values of string keys, augmented to infer and enforce them when defining composables with these keys
+ * @example
+ * declare module '@muxiu1997/vue-easy-di' {
+ *   interface DependencyRegistry {
+ *     auth: AuthService
+ *   }
+ * }
+ *
+ * // T is inferred as AuthService
+ * const useAuth = defineUseDependencyInjection({ key: 'auth' });
+ */
+
+export interface DependencyRegistry {}
+
+/**
+ * A string key, unless it is registered in DependencyRegistry with another type than T
+ */
+export type StringKey<T, K extends string> = K extends keyof DependencyRegistry
+  ? [T] extends [DependencyRegistry[K]] ? [DependencyRegistry[K]] extends [T] ? K : never : never
+  : K
+
+/**
+ * The string keys accepted with an explicit type argument, as the key is then not inferred: any key until DependencyRegistry is augmented,
+ * then only the keys registered with T, another key is passed as the second type argument
+ * @example
+ * const useSession = defineUseDependencyInjection<Session, 'session'>({ key: 'session' });
+ */
+export type ExplicitKey<T> = [keyof DependencyRegistry] extends [never]
+  ? string
+  : { [K in keyof DependencyRegistry]: StringKey<T, K> }[keyof DependencyRegistry]
+
+export interface BaseOptions<T, K extends string = string> extends Partial<WithSerialize<T>>, Partial<WithValidate<T>> {
+  key?: InjectionKey<T> | StringKey<T, K>
+  name?: string
+  dispose?: Dispose<NonNullable<T>>
+  /**
+   * Provides a readonly view of the value to descendants, while the provider keeps write access
+   */
+  readonly?: boolean
+  /**
+   * `import.meta.hot`, to keep the key of the composable across hot updates of its module, so mounted providers and injectors still match.
+   * Composables without name are told apart by their order in the module
+   */
+  hot?: HotContext
+  /**
+   * Moves the state of a value provided by the previous version of the composable to the value provided again after a hot update
+   */
+  migrate?: (previous: NonNullable<T>, value: NonNullable<T>) => void
+  /**
+   * Warns in development when a component providing the value is unmounted without any descendant injecting it through the composable.
+   * Off by default, as providing a value and using it in the same component is valid
+   */
+  expectInjected?: boolean
+}
+
+export type Options<T, K extends string = string> = BaseOptions<T, K> & (WithInjectDefault<T> | WithThrowOnNoProvider)
+
+/**
+ * Options with a string key registered in DependencyRegistry
+ */
+export type RegisteredOptions<K extends keyof DependencyRegistry> = Omit<BaseOptions<DependencyRegistry[K]>, 'key'> & { key: K }
+
+/**
+ * Which provider to inject from, instead of the nearest one
+ */
+export interface LookupOptions {
+  /**
+   * 'parent' skips the current container, components never inject their own value,
+   * 'root' injects the outermost value, provided at the app level or by the root-most component
+   */
+  from?: InjectFrom
+  /**
+   * Injects the value of the nearest provider tagged with this scope, see ProvideOptions
+   */
+  scope?: string
 }
 
-export type Options<T> = {
-  key?: InjectionKey<T> | string
-} & (WithInjectDefault<T> | WithThrowOnNoProvider)
+export type OverrideOptions<T> = (WithInjectDefault<T> | WithThrowOnNoProvider) & LookupOptions
+
+export interface ProvideOptions {
+  /**
+   * Tags the provider, so descendants can inject its value with the same scope, even when it is overridden in between
+   */
+  scope?: string
+}
 
-export type OverrideOptions<T> = (WithInjectDefault<T> | WithThrowOnNoProvider)
+/**
+ * The result of provideOrInject mode
+ */
+export interface ProvideOrInjectResult<T> {
+  value: T
+  /**
+   * Whether the value was initialized and provided by the caller, rather than injected from an ancestor
+   */
+  owner: boolean
+}
 
 /**
- * A composable for dependency injection in a Vue component. It can be used in 'inject' or 'provide' mode.
+ * A composable for dependency injection in a Vue component. It can be used in 'inject', 'provide', 'provideLazy', 'provideReactive', 'extend' or 'provideOrInject' mode.
+ * In provideLazy mode, the value is initialized the first time it is injected, and a getter of it is returned to the provider
+ * In provideReactive mode, a ref is returned to the provider to swap the value, and injectors get a stable handle forwarding to the current one
+ * In extend mode, the value injected from the nearest ancestor, or the default, is passed to the extender, and the returned value is provided instead
+ * In provideOrInject mode, the value provided by an ancestor is reused, otherwise it is initialized and provided, injectDefault is not used
  * It is not initialized, so in provide mode, initializer needs to be passed in
- * @param mode=inject - 'provide' or 'inject'
- * @param initializer - initializer for provide mode
- * @param overrideOptions - override options for inject mode
+ * @param mode=inject - 'provide', 'provideLazy', 'provideReactive', 'extend', 'provideOrInject' or 'inject'
+ * @param initializer - initializer for provide, provideLazy, provideReactive and provideOrInject mode, extender for extend mode
+ * @param overrideOptions - override options for inject mode, including which provider to inject from, or provide options for provide and provideReactive mode
  * @see defineUseDependencyInjection
  */
 export interface UseDependencyInjection<T> {
-  (mode: 'provide', initializer: () => T): NonNullable<T>
+  (mode: 'provide', initializer: () => T, provideOptions?: ProvideOptions): NonNullable<T>
+  (mode: 'provideLazy', initializer: () => T): () => NonNullable<T>
+  (mode: 'provideReactive', initializer: () => T, provideOptions?: ProvideOptions): Ref<NonNullable<T>>
+  (mode: 'extend', extender: (parent: T) => T): NonNullable<T>
+  (mode: 'provideOrInject', initializer: () => T): ProvideOrInjectResult<NonNullable<T>>
 
   (): T
   (mode: 'inject'): T
 
   (mode: 'inject', overrideOptions: OverrideOptions<T>): NonNullable<T>
   (overrideOptions: OverrideOptions<T>): NonNullable<T>
+  (mode: 'inject', lookupOptions: LookupOptions): T
+  (lookupOptions: LookupOptions): T
+
+  /**
+   * Provides the value at the app level, so it can be injected by every component of the app, router guards and plugins.
+   * Also makes the composable usable as a plugin, e.g. `app.use(useMyDependency, () => newMyType())`
+   * @param app - the app to provide the value to
+   * @param initializer - initializer for the app level value
+   */
+  // eslint-disable-next-line ts/method-signature-style -- bivariant, so the overloads of defineUseDependencyInjection stay compatible with its implementation
+  install(app: App, initializer: () => T): NonNullable<T>
+
+  /**
+   * A renderless component providing the value to its default slot, e.g. `<useMyDependency.Provider v-slot="{ value }">`
+   */
+  Provider: DependencyProvider<T>
+
+  /**
+   * The key the value is provided with, e.g. for the `inject` option of the Options API.
+   * In provideLazy mode, and with the transient lifetime of injectable classes, a handle is provided whose `get()` returns the value
+   */
+  key: InjectionKey<T> | string
+
+  /**
+   * Creates an Options API mixin injecting the value, or providing it in provide mode, and exposing it as a computed property typed on `this`.
+   * It takes the name of the computed property, followed by override options for inject mode, or 'provide' and the initializer
+   * @example
+   * export default defineComponent({
+   *   mixins: [useMyDependency.mixin('myDependency')],
+   *   mounted() {
+   *     this.myDependency;
+   *   },
+   * });
+   */
+  mixin: (<P extends string>(property: P) => DependencyMixin<P, T>)
+    & (<P extends string>(property: P, overrideOptions: OverrideOptions<T>) => DependencyMixin<P, NonNullable<T>>)
+    & (<P extends string>(property: P, lookupOptions: LookupOptions) => DependencyMixin<P, T>)
+    & (<P extends string>(property: P, mode: 'provide', initializer: () => T) => DependencyMixin<P, NonNullable<T>>)
 }
 
 /**
- * A composable for dependency injection in a Vue component. It can be used in 'inject' or 'provide' mode.
+ * A composable for dependency injection in a Vue component. It can be used in 'inject', 'provide', 'provideLazy', 'provideReactive', 'extend' or 'provideOrInject' mode.
  * It is initialized, so in provide mode, initializer is not needed, and still can be passed in to override the default initializer
  */
 export interface UseInitiatedDependencyInjection<T> extends UseDependencyInjection<T> {
-  (mode: 'provide'): NonNullable<T>
+  (mode: 'provide', initializer?: () => T, provideOptions?: ProvideOptions): NonNullable<T>
+  (mode: 'provideLazy'): () => NonNullable<T>
+  (mode: 'provideReactive', initializer?: () => T, provideOptions?: ProvideOptions): Ref<NonNullable<T>>
+  (mode: 'provideOrInject'): ProvideOrInjectResult<NonNullable<T>>
+
+  /**
+   * Provides the value at the app level, initializer can be passed in to override the default initializer
+   * @param app - the app to provide the value to
+   * @param initializer - initializer for the app level value
+   */
+  // eslint-disable-next-line ts/method-signature-style -- bivariant, for the same reason as the install it overrides
+  install(app: App, initializer?: () => T): NonNullable<T>
+
+  /**
+   * Creates an Options API mixin injecting the value, or providing it in provide mode, initializer can be passed in to override the default initializer.
+   * It takes the name of the computed property, followed by override options for inject mode, or 'provide' and the initializer
+   */
+  mixin: (<P extends string>(property: P) => DependencyMixin<P, T>)
+    & (<P extends string>(property: P, overrideOptions: OverrideOptions<T>) => DependencyMixin<P, NonNullable<T>>)
+    & (<P extends string>(property: P, lookupOptions: LookupOptions) => DependencyMixin<P, T>)
+    & (<P extends string>(property: P, mode: 'provide', initializer?: () => T) => DependencyMixin<P, NonNullable<T>>)
 }
 
+/**
+ * The values of factory injectDefaults shared with defaultScope, by app, or by this map itself for the module, then by composable key
+ */
+const sharedDefaults = new WeakMap<object, Map<InjectionKey<unknown> | string, unknown>>()
+
+/**
+ * Defines a composable for Vue that provides or injects the value of a string key registered in DependencyRegistry, whose type is inferred from the registry.
+ *
+ * @template K - The registered key.
+ *
+ * @param options - Configuration options for the composable, the same as below, with a registered key.
+ *
+ * @returns A UseDependencyInjection function, see below.
+ *
+ * @see DependencyRegistry
+ */
+export default function defineUseDependencyInjection<K extends keyof DependencyRegistry>(
+  options: RegisteredOptions<K>,
+): UseDependencyInjection<DependencyRegistry[K] | undefined>
+
+/**
+ * Defines a composable for Vue that provides or injects the value of a string key registered in DependencyRegistry, whose type is inferred from the registry.
+ *
+ * @template K - The registered key.
+ *
+ * @param options - Configuration options for the composable, the same as below, with a registered key.
+ *
+ * @returns A UseDependencyInjection function, see below.
+ *
+ * @see DependencyRegistry
+ */
+export default function defineUseDependencyInjection<K extends keyof DependencyRegistry>(
+  options: RegisteredOptions<K> & (WithInjectDefault<DependencyRegistry[K]> | WithThrowOnNoProvider),
+): UseDependencyInjection<DependencyRegistry[K]>
+
+/**
+ * Defines a composable for Vue that provides or injects the value of a string key registered in DependencyRegistry, whose type is inferred from the registry.
+ *
+ * @template K - The registered key.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param initializer - An initializer for the value to be provided, returning the registered type.
+ * @param options - Configuration options for the composable, the same as below, with a registered key.
+ *
+ * @returns A UseInitiatedDependencyInjection function, see below.
+ *
+ * @see DependencyRegistry
+ */
+export default function defineUseDependencyInjection<K extends keyof DependencyRegistry, D extends Dependencies = Record<string, never>>(
+  initializer: (dependencies: ResolvedDependencies<D>) => DependencyRegistry[K],
+  options: RegisteredOptions<K> & Partial<WithDependencies<D>>,
+): UseInitiatedDependencyInjection<DependencyRegistry[K] | undefined>
+
+/**
+ * Defines a composable for Vue that provides or injects the value of a string key registered in DependencyRegistry, whose type is inferred from the registry.
+ *
+ * @template K - The registered key.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param initializer - An initializer for the value to be provided, returning the registered type.
+ * @param options - Configuration options for the composable, the same as below, with a registered key.
+ *
+ * @returns A UseInitiatedDependencyInjection function, see below.
+ *
+ * @see DependencyRegistry
+ */
+export default function defineUseDependencyInjection<K extends keyof DependencyRegistry, D extends Dependencies = Record<string, never>>(
+  initializer: (dependencies: ResolvedDependencies<D>) => DependencyRegistry[K],
+  options: RegisteredOptions<K> & (WithInjectDefault<DependencyRegistry[K]> | WithThrowOnNoProvider) & Partial<WithDependencies<D>>,
+): UseInitiatedDependencyInjection<DependencyRegistry[K]>
+
 /**
  * Defines a composable for Vue that provides or injects a value.
  *
@@ -49,8 +340,15 @@ export interface UseInitiatedDependencyInjection<T> extends UseDependencyInjecti
  *
  * @param options - Configuration options for the composable.
  * @param options.key - An optional InjectionKey or string to uniquely identify the value in the Vue application's dependency injection system.
+ * @param options.name - An optional name of the dependency, used as the description of the generated key and in error messages.
+ * @param options.dispose - An optional function called with the provided value when the providing component or effect scope is disposed. `true` calls `[Symbol.dispose]()` or `dispose()` of the value.
+ * @param options.serialize - An optional function returning the state of a value provided on the server, to put into the SSR payload with createDependencyState.
+ * @param options.hydrate - An optional function creating the value provided on the client from the serialized state, instead of initializing it.
+ * @param options.validate - An optional type guard or Standard Schema checking the value when it is provided and when it is injected. `T` is inferred from it.
+ * @param options.onInvalid - What to do with an invalid value: 'throw' a DependencyValidationError (default), 'warn' and use it anyway, or fall back to 'default', the injectDefault.
  * @param options.injectDefault - An optional default value to be used when none is provided. Can be either an instance of T or a factory function returning one.
- * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified.
+ * @param options.defaultScope - Whether a factory injectDefault is called for each inject ('per-inject', the default), once per app ('app') or once ('module').
+ * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified. `true` throws a DependencyNotProvidedError.
  *
  * @returns A UseInitiatedDependencyInjection function that can be called with 'provide' or 'inject' to either provide a value to the Vue component tree, or inject an existing one from a parent component. If neither 'provide' nor 'inject' is specified, it defaults to 'inject'.
  *
@@ -68,6 +366,21 @@ export interface UseInitiatedDependencyInjection<T> extends UseDependencyInjecti
  *   }
  * });
  *
+ * // Or providing a value initialized the first time it is injected
+ * const getMyDependency = useMyDependency('provideLazy');
+ *
+ * // Or providing a value wrapping the one of the nearest ancestor
+ * const myDependency = useMyDependency('extend', parent => newMyType(parent));
+ *
+ * // Or reusing the value of an ancestor, providing a new one only when there is none
+ * const { value: myDependency, owner } = useMyDependency('provideOrInject');
+ *
+ * // Or providing a value to a subtree in a template
+ * <useMyDependency.Provider v-slot="{ value }">...</useMyDependency.Provider>
+ *
+ * // Or providing a value at the app level
+ * app.use(useMyDependency);
+ *
  * // Injecting a value in a child component
  * const childComponent = defineComponent({
  *   setup() {
@@ -78,6 +391,18 @@ export interface UseInitiatedDependencyInjection<T> extends UseDependencyInjecti
  *   }
  * });
  *
+ * // Using with dependencies on other defined composables
+ * const useMyService = defineUseDependencyInjection(({ myDependency }) => newMyService(myDependency), { dependencies: { myDependency: useMyDependency } });
+ *
+ * // Using with disposal when the providing component is unmounted
+ * const useMyConnection = defineUseDependencyInjection(() => newMyConnection(), { dispose: connection => connection.close() });
+ *
+ * // Using with the state dumped into the SSR payload, and hydrated on the client
+ * const useMyStore = defineUseDependencyInjection(() => newMyStore(), { name: 'MyStore', serialize: store => store.state, hydrate: state => newMyStore(state) });
+ *
+ * // Validating values shared through a string key, with a type guard or a Standard Schema
+ * const useSharedConfig = defineUseDependencyInjection({ key: 'config', validate: configSchema, onInvalid: 'warn' });
+ *
  * // Using with default value
  * const useDefaultDependency = defineUseDependencyInjection<MyType>({ injectDefault: () => newMyType() });
  * // Using with default value in inject mode
@@ -85,11 +410,13 @@ export interface UseInitiatedDependencyInjection<T> extends UseDependencyInjecti
  *
  * // Throwing error when no provider is found
  * const useStrictDependency = defineUseDependencyInjection<MyType>({ throwOnNoProvider: () => new Error('No provider found for useStrictDependency') });
+ * // Or throwing a DependencyNotProvidedError naming the dependency
+ * const useNamedDependency = defineUseDependencyInjection<MyType>({ name: 'MyDependency', throwOnNoProvider: true });
  * // Throwing error when no provider is found in inject mode
  * const myDependency = useStrictDependency('inject', { throwOnNoProvider: () => new Error('No provider found for myDependency') });
  */
-export default function defineUseDependencyInjection<T extends NonNullable<unknown>>(
-  options?: Pick<Options<T>, 'key'>,
+export default function defineUseDependencyInjection<T extends NonNullable<unknown>, K extends string = ExplicitKey<T>>(
+  options?: BaseOptions<T, K>,
 ): UseDependencyInjection<T | undefined>
 
 /**
@@ -99,8 +426,15 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *
  * @param options - Configuration options for the composable.
  * @param options.key - An optional InjectionKey or string to uniquely identify the value in the Vue application's dependency injection system.
+ * @param options.name - An optional name of the dependency, used as the description of the generated key and in error messages.
+ * @param options.dispose - An optional function called with the provided value when the providing component or effect scope is disposed. `true` calls `[Symbol.dispose]()` or `dispose()` of the value.
+ * @param options.serialize - An optional function returning the state of a value provided on the server, to put into the SSR payload with createDependencyState.
+ * @param options.hydrate - An optional function creating the value provided on the client from the serialized state, instead of initializing it.
+ * @param options.validate - An optional type guard or Standard Schema checking the value when it is provided and when it is injected. `T` is inferred from it.
+ * @param options.onInvalid - What to do with an invalid value: 'throw' a DependencyValidationError (default), 'warn' and use it anyway, or fall back to 'default', the injectDefault.
  * @param options.injectDefault - An optional default value to be used when none is provided. Can be either an instance of T or a factory function returning one.
- * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified.
+ * @param options.defaultScope - Whether a factory injectDefault is called for each inject ('per-inject', the default), once per app ('app') or once ('module').
+ * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified. `true` throws a DependencyNotProvidedError.
  *
  * @returns A UseInitiatedDependencyInjection function that can be called with 'provide' or 'inject' to either provide a value to the Vue component tree, or inject an existing one from a parent component. If neither 'provide' nor 'inject' is specified, it defaults to 'inject'.
  *
@@ -118,6 +452,21 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *   }
  * });
  *
+ * // Or providing a value initialized the first time it is injected
+ * const getMyDependency = useMyDependency('provideLazy');
+ *
+ * // Or providing a value wrapping the one of the nearest ancestor
+ * const myDependency = useMyDependency('extend', parent => newMyType(parent));
+ *
+ * // Or reusing the value of an ancestor, providing a new one only when there is none
+ * const { value: myDependency, owner } = useMyDependency('provideOrInject');
+ *
+ * // Or providing a value to a subtree in a template
+ * <useMyDependency.Provider v-slot="{ value }">...</useMyDependency.Provider>
+ *
+ * // Or providing a value at the app level
+ * app.use(useMyDependency);
+ *
  * // Injecting a value in a child component
  * const childComponent = defineComponent({
  *   setup() {
@@ -128,6 +477,18 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *   }
  * });
  *
+ * // Using with dependencies on other defined composables
+ * const useMyService = defineUseDependencyInjection(({ myDependency }) => newMyService(myDependency), { dependencies: { myDependency: useMyDependency } });
+ *
+ * // Using with disposal when the providing component is unmounted
+ * const useMyConnection = defineUseDependencyInjection(() => newMyConnection(), { dispose: connection => connection.close() });
+ *
+ * // Using with the state dumped into the SSR payload, and hydrated on the client
+ * const useMyStore = defineUseDependencyInjection(() => newMyStore(), { name: 'MyStore', serialize: store => store.state, hydrate: state => newMyStore(state) });
+ *
+ * // Validating values shared through a string key, with a type guard or a Standard Schema
+ * const useSharedConfig = defineUseDependencyInjection({ key: 'config', validate: configSchema, onInvalid: 'warn' });
+ *
  * // Using with default value
  * const useDefaultDependency = defineUseDependencyInjection<MyType>({ injectDefault: () => newMyType() });
  * // Using with default value in inject mode
@@ -135,11 +496,13 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *
  * // Throwing error when no provider is found
  * const useStrictDependency = defineUseDependencyInjection<MyType>({ throwOnNoProvider: () => new Error('No provider found for useStrictDependency') });
+ * // Or throwing a DependencyNotProvidedError naming the dependency
+ * const useNamedDependency = defineUseDependencyInjection<MyType>({ name: 'MyDependency', throwOnNoProvider: true });
  * // Throwing error when no provider is found in inject mode
  * const myDependency = useStrictDependency('inject', { throwOnNoProvider: () => new Error('No provider found for myDependency') });
  */
-export default function defineUseDependencyInjection<T extends NonNullable<unknown>>(
-  options: Options<T>,
+export default function defineUseDependencyInjection<T extends NonNullable<unknown>, K extends string = ExplicitKey<T>>(
+  options: Options<T, K>,
 ): UseDependencyInjection<T>
 
 /**
@@ -147,11 +510,21 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *
  * @template T - The type of the value to be provided or injected.
  *
- * @param initializer - An optional initializer for the value to be provided.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param initializer - An optional initializer for the value to be provided. Receives the resolved dependencies.
  * @param options - Configuration options for the composable.
  * @param options.key - An optional InjectionKey or string to uniquely identify the value in the Vue application's dependency injection system.
+ * @param options.name - An optional name of the dependency, used as the description of the generated key and in error messages.
+ * @param options.dispose - An optional function called with the provided value when the providing component or effect scope is disposed. `true` calls `[Symbol.dispose]()` or `dispose()` of the value.
+ * @param options.serialize - An optional function returning the state of a value provided on the server, to put into the SSR payload with createDependencyState.
+ * @param options.hydrate - An optional function creating the value provided on the client from the serialized state, instead of initializing it.
+ * @param options.validate - An optional type guard or Standard Schema checking the value when it is provided and when it is injected. `T` is inferred from it.
+ * @param options.onInvalid - What to do with an invalid value: 'throw' a DependencyValidationError (default), 'warn' and use it anyway, or fall back to 'default', the injectDefault.
+ * @param options.dependencies - Other defined composables the initializer depends on. They are injected from ancestors, or initialized and provided alongside when not provided yet.
  * @param options.injectDefault - An optional default value to be used when none is provided. Can be either an instance of T or a factory function returning one.
- * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified.
+ * @param options.defaultScope - Whether a factory injectDefault is called for each inject ('per-inject', the default), once per app ('app') or once ('module').
+ * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified. `true` throws a DependencyNotProvidedError.
  *
  * @returns A UseInitiatedDependencyInjection function that can be called with 'provide' or 'inject' to either provide a value to the Vue component tree, or inject an existing one from a parent component. If neither 'provide' nor 'inject' is specified, it defaults to 'inject'.
  *
@@ -169,6 +542,21 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *   }
  * });
  *
+ * // Or providing a value initialized the first time it is injected
+ * const getMyDependency = useMyDependency('provideLazy');
+ *
+ * // Or providing a value wrapping the one of the nearest ancestor
+ * const myDependency = useMyDependency('extend', parent => newMyType(parent));
+ *
+ * // Or reusing the value of an ancestor, providing a new one only when there is none
+ * const { value: myDependency, owner } = useMyDependency('provideOrInject');
+ *
+ * // Or providing a value to a subtree in a template
+ * <useMyDependency.Provider v-slot="{ value }">...</useMyDependency.Provider>
+ *
+ * // Or providing a value at the app level
+ * app.use(useMyDependency);
+ *
  * // Injecting a value in a child component
  * const childComponent = defineComponent({
  *   setup() {
@@ -179,6 +567,18 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *   }
  * });
  *
+ * // Using with dependencies on other defined composables
+ * const useMyService = defineUseDependencyInjection(({ myDependency }) => newMyService(myDependency), { dependencies: { myDependency: useMyDependency } });
+ *
+ * // Using with disposal when the providing component is unmounted
+ * const useMyConnection = defineUseDependencyInjection(() => newMyConnection(), { dispose: connection => connection.close() });
+ *
+ * // Using with the state dumped into the SSR payload, and hydrated on the client
+ * const useMyStore = defineUseDependencyInjection(() => newMyStore(), { name: 'MyStore', serialize: store => store.state, hydrate: state => newMyStore(state) });
+ *
+ * // Validating values shared through a string key, with a type guard or a Standard Schema
+ * const useSharedConfig = defineUseDependencyInjection({ key: 'config', validate: configSchema, onInvalid: 'warn' });
+ *
  * // Using with default value
  * const useDefaultDependency = defineUseDependencyInjection<MyType>({ injectDefault: () => newMyType() });
  * // Using with default value in inject mode
@@ -186,12 +586,14 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *
  * // Throwing error when no provider is found
  * const useStrictDependency = defineUseDependencyInjection<MyType>({ throwOnNoProvider: () => new Error('No provider found for useStrictDependency') });
+ * // Or throwing a DependencyNotProvidedError naming the dependency
+ * const useNamedDependency = defineUseDependencyInjection<MyType>({ name: 'MyDependency', throwOnNoProvider: true });
  * // Throwing error when no provider is found in inject mode
  * const myDependency = useStrictDependency('inject', { throwOnNoProvider: () => new Error('No provider found for myDependency') });
  */
-export default function defineUseDependencyInjection<T extends NonNullable<unknown>>(
-  initializer: () => T,
-  options?: Pick<Options<T>, 'key'>,
+export default function defineUseDependencyInjection<T extends NonNullable<unknown>, D extends Dependencies = Record<string, never>, K extends string = ExplicitKey<T>>(
+  initializer: (dependencies: ResolvedDependencies<D>) => T,
+  options?: BaseOptions<T, K> & Partial<WithDependencies<D>>,
 ): UseInitiatedDependencyInjection<T | undefined>
 
 /**
@@ -199,11 +601,21 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *
  * @template T - The type of the value to be provided or injected.
  *
- * @param initializer - An optional initializer for the value to be provided.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param initializer - An optional initializer for the value to be provided. Receives the resolved dependencies.
  * @param options - Configuration options for the composable.
  * @param options.key - An optional InjectionKey or string to uniquely identify the value in the Vue application's dependency injection system.
+ * @param options.name - An optional name of the dependency, used as the description of the generated key and in error messages.
+ * @param options.dispose - An optional function called with the provided value when the providing component or effect scope is disposed. `true` calls `[Symbol.dispose]()` or `dispose()` of the value.
+ * @param options.serialize - An optional function returning the state of a value provided on the server, to put into the SSR payload with createDependencyState.
+ * @param options.hydrate - An optional function creating the value provided on the client from the serialized state, instead of initializing it.
+ * @param options.validate - An optional type guard or Standard Schema checking the value when it is provided and when it is injected. `T` is inferred from it.
+ * @param options.onInvalid - What to do with an invalid value: 'throw' a DependencyValidationError (default), 'warn' and use it anyway, or fall back to 'default', the injectDefault.
+ * @param options.dependencies - Other defined composables the initializer depends on. They are injected from ancestors, or initialized and provided alongside when not provided yet.
  * @param options.injectDefault - An optional default value to be used when none is provided. Can be either an instance of T or a factory function returning one.
- * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified.
+ * @param options.defaultScope - Whether a factory injectDefault is called for each inject ('per-inject', the default), once per app ('app') or once ('module').
+ * @param options.throwOnNoProvider - An optional function that returns an error to be thrown when no value is provided, and no default is specified. `true` throws a DependencyNotProvidedError.
  *
  * @returns A UseInitiatedDependencyInjection function that can be called with 'provide' or 'inject' to either provide a value to the Vue component tree, or inject an existing one from a parent component. If neither 'provide' nor 'inject' is specified, it defaults to 'inject'.
  *
@@ -221,6 +633,21 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *   }
  * });
  *
+ * // Or providing a value initialized the first time it is injected
+ * const getMyDependency = useMyDependency('provideLazy');
+ *
+ * // Or providing a value wrapping the one of the nearest ancestor
+ * const myDependency = useMyDependency('extend', parent => newMyType(parent));
+ *
+ * // Or reusing the value of an ancestor, providing a new one only when there is none
+ * const { value: myDependency, owner } = useMyDependency('provideOrInject');
+ *
+ * // Or providing a value to a subtree in a template
+ * <useMyDependency.Provider v-slot="{ value }">...</useMyDependency.Provider>
+ *
+ * // Or providing a value at the app level
+ * app.use(useMyDependency);
+ *
  * // Injecting a value in a child component
  * const childComponent = defineComponent({
  *   setup() {
@@ -231,6 +658,18 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *   }
  * });
  *
+ * // Using with dependencies on other defined composables
+ * const useMyService = defineUseDependencyInjection(({ myDependency }) => newMyService(myDependency), { dependencies: { myDependency: useMyDependency } });
+ *
+ * // Using with disposal when the providing component is unmounted
+ * const useMyConnection = defineUseDependencyInjection(() => newMyConnection(), { dispose: connection => connection.close() });
+ *
+ * // Using with the state dumped into the SSR payload, and hydrated on the client
+ * const useMyStore = defineUseDependencyInjection(() => newMyStore(), { name: 'MyStore', serialize: store => store.state, hydrate: state => newMyStore(state) });
+ *
+ * // Validating values shared through a string key, with a type guard or a Standard Schema
+ * const useSharedConfig = defineUseDependencyInjection({ key: 'config', validate: configSchema, onInvalid: 'warn' });
+ *
  * // Using with default value
  * const useDefaultDependency = defineUseDependencyInjection<MyType>({ injectDefault: () => newMyType() });
  * // Using with default value in inject mode
@@ -238,26 +677,28 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
  *
  * // Throwing error when no provider is found
  * const useStrictDependency = defineUseDependencyInjection<MyType>({ throwOnNoProvider: () => new Error('No provider found for useStrictDependency') });
+ * // Or throwing a DependencyNotProvidedError naming the dependency
+ * const useNamedDependency = defineUseDependencyInjection<MyType>({ name: 'MyDependency', throwOnNoProvider: true });
  * // Throwing error when no provider is found in inject mode
  * const myDependency = useStrictDependency('inject', { throwOnNoProvider: () => new Error('No provider found for myDependency') });
  */
-export default function defineUseDependencyInjection<T extends NonNullable<unknown>>(
-  initializer: () => T,
-  options: Partial<Options<T>>,
+export default function defineUseDependencyInjection<T extends NonNullable<unknown>, D extends Dependencies = Record<string, never>, K extends string = ExplicitKey<T>>(
+  initializer: (dependencies: ResolvedDependencies<D>) => T,
+  options: Partial<Options<T, K>> & Partial<WithDependencies<D>>,
 ): UseInitiatedDependencyInjection<T >
 
 export default function defineUseDependencyInjection<T extends NonNullable<unknown>>(
-  arg0: (() => T) | Partial<Options<T>> | undefined = undefined,
-  arg1: Partial<Options<T>> | undefined = undefined,
+  arg0: ((dependencies: Record<string, unknown>) => T) | Partial<Options<T>> | undefined = undefined,
+  arg1: Partial<Options<T> & WithDependencies<Dependencies>> | undefined = undefined,
 ): UseInitiatedDependencyInjection<T | undefined> {
-  let initializer: (() => T) | undefined
-  let options: Partial<Options<T>> = {}
+  let initializer: ((dependencies: Record<string, unknown>) => T) | undefined
+  let options: Partial<Options<T> & WithDependencies<Dependencies>> = {}
   // two arguments
   if (arg0 != null && arg1 != null) {
     if (typeof arg0 !== 'function') {
       throw new TypeError('[defineUseDependencyInjection] first argument must be a initializer function when two arguments are provided')
     }
-    initializer = arg0 as () => T
+    initializer = arg0
     options = arg1
   }
   // one argument
@@ -273,19 +714,246 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
   }
   // no argument do nothing
 
-  // eslint-disable-next-line symbol-description
-  const injectKey = options.key ?? (Symbol() as InjectionKey<T>)
-  return function UseDependencyInjection($arg0: unknown, $arg1: unknown) {
+  const { hot } = options
+  const hotId = hot != null ? getHotId(hot, options.name) : undefined
+  // the previous version of the composable, when its module is hot updated
+  const previous = hot != null ? getHotRecord<T>(hot, hotId!) : undefined
+  const injectKey = options.key ?? previous?.key ?? (Symbol(options.name) as InjectionKey<T>)
+  const name = options.name ?? describeKey(injectKey)
+  const definition: Definition<T> = {
+    key: injectKey,
+    name: options.name,
+    initializer,
+    dependencies: options.dependencies,
+    provide: (provideTo, label) => provide(undefined, undefined, provideTo, label),
+  }
+  const hotRecord = hot != null ? createHotRecord(hot, hotId!, definition) : undefined
+  const scopedKeys = new Map<string, InjectionKey<T>>()
+  if ((options.serialize != null || options.hydrate != null) && name === 'Symbol()') {
+    throw new TypeError('[defineUseDependencyInjection] serialize and hydrate require a name or a key with a description, to identify the value in the SSR payload')
+  }
+
+  function toOverrideInitializer(overrideInitializer: unknown, mode: string) {
+    if (overrideInitializer != null && typeof overrideInitializer !== 'function') {
+      throw new TypeError(`[useDependencyInjection] second argument must be a function when mode is '${mode}'`)
+    }
+    return overrideInitializer as (() => T | undefined) | undefined
+  }
+
+  /**
+   * Checks a value with the validate option, returning the error instead of throwing it when the value should fall back to injectDefault
+   */
+  function validate(value: T): T | DependencyValidationError {
+    if (options.validate == null) return value
+
+    const result = runValidator(options.validate, value)
+    if (result.issues == null) return result.value
+    const error = new DependencyValidationError(name, result.issues)
+    switch (options.onInvalid ?? 'throw') {
+      case 'warn':
+        warnDependency(error.message)
+        return value
+      case 'default':
+        return error
+      default:
+        throw error
+    }
+  }
+
+  /**
+   * Calls a factory injectDefault, or reuses the value of this composable in the same app or module with defaultScope
+   */
+  function resolveDefault(injectDefault: T | (() => T), defaultScope: DefaultScope = 'per-inject'): T {
+    if (typeof injectDefault !== 'function') return injectDefault
+    const factory = injectDefault as () => T
+    const owner = defaultScope === 'module' ? sharedDefaults : defaultScope === 'app' ? getCurrentApp() : undefined
+    if (owner == null) return factory()
+
+    let defaults = sharedDefaults.get(owner)
+    if (defaults == null) {
+      defaults = new Map()
+      sharedDefaults.set(owner, defaults)
+    }
+    if (!defaults.has(injectKey)) defaults.set(injectKey, factory())
+    return defaults.get(injectKey) as T
+  }
+
+  function ensureInitialized(value: T | undefined): T {
+    if (value == null) throw new DependencyNotInitializedError(name)
+    const validated = validate(value)
+    if (!(validated instanceof DependencyValidationError)) return validated
+
+    // the injectDefault is provided instead of an invalid value
+    const { injectDefault, defaultScope } = options as Partial<WithInjectDefault<T>>
+    const fallback = injectDefault != null ? resolveDefault(injectDefault, defaultScope) : undefined
+    if (fallback == null) throw validated
+    return fallback
+  }
+
+  function initialize(overrideInitializer: unknown, provideTo: ProvideFunction, instance = getCurrentInstance(), label = name): T {
+    const override = toOverrideInitializer(overrideInitializer, 'provide')
+    const value = interceptProvide(name, instance, () => ensureInitialized(
+      initializeWithState<T | undefined>(name, options, () => override?.() ?? initializeWithDependencies(definition, provideTo, label)),
+    ))
+    if (hotRecord != null) migrateHotValue(hotRecord, value, options.migrate as ((previous: T, value: T) => void) | undefined)
+    return value
+  }
+
+  /**
+   * Initializes the value of a provider and what its descendants inject: the value itself, or with the transient lifetime of injectable classes,
+   * a factory constructing an instance each time it is injected, from the dependencies resolved once by the provider.
+   * The label names the value in the circular dependency error
+   */
+  function initializeProvided(overrideInitializer: unknown, provideTo: ProvideFunction, instance = getCurrentInstance(), label = name): [value: T, provided: unknown] {
+    if (definition.lifetime !== 'transient') {
+      const value = initialize(overrideInitializer, provideTo, instance, label)
+      return [value, toProvided(value)]
+    }
+    const initializeInstance = toOverrideInitializer(overrideInitializer, 'provide') ?? prepareInitializer(definition, provideTo, label)
+    const transient = new TransientValue(() => {
+      const value = interceptProvide(name, instance, () => ensureInitialized(initializeInstance()))
+      disposeOnScopeDispose(value, options.dispose)
+      return toProvided(value)
+    })
+    // the provider gets an instance of its own
+    return [initialize(initializeInstance, provideTo, instance), transient]
+  }
+
+  function trackProvide(value: unknown, app: App | null = null) {
+    if (!isTracking()) return
+    track({ type: 'provide', key: injectKey, label: name, value, instance: app ? null : getCurrentInstance(), app })
+  }
+
+  function trackInject(value: unknown, source: InjectSource, lookupKey: InjectionKey<unknown> | string = injectKey) {
+    if (__DEV__ && source === 'provider') markInjected(lookupKey, injectKey)
+    if (!isTracking()) return
+    const instance = getCurrentInstance()
+    const provider = source === 'provider' ? findProvider(instance, lookupKey) : undefined
+    track({ type: 'inject', key: injectKey, label: name, value, source, instance, provider })
+  }
+
+  /**
+   * The key a value is also provided under when its provider is tagged with a scope
+   */
+  function scopedKey(scope: string) {
+    let key = scopedKeys.get(scope)
+    if (key == null) {
+      key = Symbol(`${name}@${scope}`)
+      scopedKeys.set(scope, key)
+    }
+    return key
+  }
+
+  /**
+   * The value seen by descendants, a readonly view of it with the readonly option
+   */
+  function toProvided(value: T): T {
+    return options.readonly && typeof value === 'object' && value != null ? readonly(value) as T : value
+  }
+
+  /**
+   * Checks a provided value when injecting it, handles of reactive values were checked when provided and swapped
+   */
+  function validateProvided(provided: unknown): T | DependencyValidationError {
+    const value = unwrapLazy(provided) as T
+    return isHandle(value) ? value : validate(value)
+  }
+
+  function provideInScope(value: unknown, provideOptions: ProvideOptions | undefined, provideTo: ProvideFunction = provideInContext) {
+    provideTo(injectKey, value)
+    if (provideOptions?.scope != null) provideTo(scopedKey(provideOptions.scope), value)
+  }
+
+  /**
+   * Provides the value to the current component or container, or with provideTo when it is provided as a dependency of another composable
+   */
+  function provide(overrideInitializer: unknown, provideOptions?: ProvideOptions, provideTo: ProvideFunction = provideInContext, label = name) {
+    const [value, provided] = initializeProvided(overrideInitializer, provideTo, getCurrentInstance(), label)
+    provideInScope(provided, provideOptions, provideTo)
+    disposeOnScopeDispose(value, options.dispose)
+    trackProvide(value)
+
+    return value
+  }
+
+  function ensureObject(value: T): T & object {
+    if (typeof value !== 'object' || value == null) {
+      throw new TypeError(`[useDependencyInjection] provideReactive requires an object value, \`${name}\` is ${typeof value}`)
+    }
+    return value
+  }
+
+  function dependencyInjection($arg0: unknown, $arg1: unknown, $arg2?: unknown) {
     // mode: 'provide'
 
     if ($arg0 === 'provide') {
-      if ($arg1 != null && typeof $arg1 !== 'function') {
-        throw new TypeError('[useDependencyInjection] second argument must be a function when mode is \'provide\'')
+      return provide($arg1, $arg2 as ProvideOptions | undefined)
+    }
+
+    // mode: 'provideOrInject'
+
+    if ($arg0 === 'provideOrInject') {
+      const provided = injectInContext(injectKey, NOT_PROVIDED)
+      const injected = provided !== NOT_PROVIDED ? validateProvided(provided) : undefined
+      // an invalid value is not reused with onInvalid: 'default'
+      if (injected != null && !(injected instanceof DependencyValidationError)) {
+        trackInject(injected, 'provider')
+        return { value: interceptInject(name, 'provider', injected), owner: false }
+      }
+      return { value: provide($arg1), owner: true }
+    }
+
+    // mode: 'provideLazy'
+
+    if ($arg0 === 'provideLazy') {
+      const overrideInitializer = toOverrideInitializer($arg1, 'provideLazy')
+      // dependencies are resolved in the provider, only the initializer is deferred
+      const initializeValue = overrideInitializer ?? prepareInitializer(definition, provideInContext)
+      const instance = getCurrentInstance()
+      const lazy = new LazyValue(() => interceptProvide(name, instance, () => ensureInitialized(initializeValue())))
+      // the getter returned to the provider gives the value itself, injectors get the readonly view
+      provideInContext(injectKey, new LazyValue(() => toProvided(lazy.get())))
+      trackProvide(lazy)
+      const { dispose } = options
+      if (dispose != null && dispose !== false) {
+        disposeOnScopeDispose(lazy, () => lazy.isInitialized && disposeValue(lazy.get(), dispose))
       }
-      const overrideInitializer = $arg1 as (() => T) | undefined
-      const value = overrideInitializer?.() ?? initializer?.()
-      if (value == null) throw new Error(`UseDependencyInjection value \`${injectKey.toString()}\` is not initialized`)
-      provide(injectKey, value)
+
+      return () => lazy.get()
+    }
+
+    // mode: 'provideReactive'
+
+    if ($arg0 === 'provideReactive') {
+      const instance = getCurrentInstance()
+      const { dispose } = options
+      const ref = createSwappableRef(ensureObject(initialize($arg1, provideInContext)), (value, previous) => {
+        const swapped = ensureObject(interceptProvide(name, instance, () => ensureInitialized(value)))
+        if (dispose != null) disposeValue(previous, dispose)
+        return swapped
+      })
+      const handle = createHandle(ref, options.readonly === true)
+      provideInScope(handle, $arg2 as ProvideOptions | undefined)
+      trackProvide(handle)
+      if (dispose != null && dispose !== false) {
+        disposeOnScopeDispose(ref, () => disposeValue(ref.value, dispose))
+      }
+
+      return ref
+    }
+
+    // mode: 'extend'
+
+    if ($arg0 === 'extend') {
+      if (typeof $arg1 !== 'function') {
+        throw new TypeError('[useDependencyInjection] second argument must be a function when mode is \'extend\'')
+      }
+      const parent = dependencyInjection('inject', undefined) as T | undefined
+      const extend = $arg1 as (parent: T | undefined) => T | undefined
+      const value = interceptProvide(name, getCurrentInstance(), () => ensureInitialized(extend(parent)))
+      provideInContext(injectKey, toProvided(value))
+      disposeOnScopeDispose(value, options.dispose)
+      trackProvide(value)
 
       return value
     }
@@ -304,6 +972,7 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
     // override options has higher priority than options
     if ('injectDefault' in overrideOptions && overrideOptions.injectDefault != null) {
       finalOptions.injectDefault = overrideOptions.injectDefault
+      finalOptions.defaultScope = overrideOptions.defaultScope ?? finalOptions.defaultScope
       finalOptions.throwOnNoProvider = undefined
     }
     else if ('throwOnNoProvider' in overrideOptions && overrideOptions.throwOnNoProvider != null) {
@@ -311,15 +980,74 @@ export default function defineUseDependencyInjection<T extends NonNullable<unkno
       finalOptions.injectDefault = undefined
     }
 
-    if (finalOptions.injectDefault != null) {
-      return inject(injectKey, finalOptions.injectDefault, true)
+    const { from, scope } = overrideOptions as LookupOptions
+    const lookupKey = scope != null ? scopedKey(scope) : injectKey
+    const provided = injectInContext(lookupKey, NOT_PROVIDED, from)
+    let value: T | undefined
+    let source: InjectSource
+    const validated = provided !== NOT_PROVIDED ? validateProvided(provided) : undefined
+    // an invalid value falls back to injectDefault with onInvalid: 'default'
+    if (provided !== NOT_PROVIDED && !(validated instanceof DependencyValidationError)) {
+      value = validated
+      source = 'provider'
     }
+    else if (finalOptions.injectDefault != null) {
+      value = resolveDefault(finalOptions.injectDefault, finalOptions.defaultScope)
+      source = 'default'
+    }
+    else {
+      source = 'missing'
+    }
+    value = interceptInject(name, source, value)
 
-    const value = inject(injectKey)
-    if (value == null && 'throwOnNoProvider' in finalOptions && finalOptions.throwOnNoProvider != null) {
-      throw finalOptions.throwOnNoProvider()
+    const { throwOnNoProvider } = finalOptions
+    if (value == null && throwOnNoProvider != null) {
+      trackInject(value, 'threw')
+      throw throwOnNoProvider === true ? new DependencyNotProvidedError(name) : throwOnNoProvider()
     }
+    trackInject(value, source, lookupKey)
 
     return value
+  }
+
+  // errors are passed to the interceptors before they reach the caller
+  const useDependencyInjection = function UseDependencyInjection($arg0: unknown, $arg1: unknown, $arg2?: unknown) {
+    if (__DEV__) diagnoseCall(name, injectKey, [$arg0, $arg1], options.expectInjected)
+    try {
+      return dependencyInjection($arg0, $arg1, $arg2)
+    }
+    catch (error) {
+      interceptError(error, name)
+      throw error
+    }
   } as UseInitiatedDependencyInjection<T | undefined>
+
+  useDependencyInjection.install = function install(app: App, overrideInitializer?: () => T | undefined) {
+    if (typeof app?.provide !== 'function') {
+      throw new TypeError('[useDependencyInjection] install requires an app instance with `provide`')
+    }
+    const provideTo: ProvideFunction = (key, value) => app.provide(key, value)
+    const initializeForApp = () => {
+      try {
+        return initializeProvided(overrideInitializer, provideTo, null)
+      }
+      catch (error) {
+        interceptError(error, name)
+        throw error
+      }
+    }
+    // dependencies are injected from the app when it supports running in its injection context
+    const [value, provided] = app.runWithContext != null ? app.runWithContext(initializeForApp) : initializeForApp()
+    app.provide(injectKey, provided)
+    trackProvide(value, app)
+
+    return value
+  }
+
+  useDependencyInjection.Provider = createProvider(useDependencyInjection, options.name)
+  useDependencyInjection.key = injectKey
+  useDependencyInjection.mixin = createMixinFactory(useDependencyInjection)
+
+  registerDefinition(useDependencyInjection, definition, previous?.definition)
+  return useDependencyInjection
 }
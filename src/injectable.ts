@@ -0,0 +1,133 @@
+import defineUseDependencyInjection from './index'
+
+import { getDefinition } from './dependencies'
+
+import type { DefinedComposable, Dependencies } from './dependencies'
+import type { BaseOptions, UseInitiatedDependencyInjection, WithInjectDefault, WithThrowOnNoProvider } from './index'
+import type { InjectionKey } from 'vue-demi'
+
+declare const tokenType: unique symbol
+
+/**
+ * An InjectionKey carrying the type of its value, so it can be declared as a dependency of an injectable class
+ */
+export type InjectionToken<T> = InjectionKey<T> & { readonly [tokenType]?: T }
+
+/**
+ * A constructor dependency of an injectable class, a defined composable or a token provided with `provide` or `app.provide`
+ */
+export type InjectableDependency = DefinedComposable | InjectionToken<unknown>
+
+/**
+ * The constructor arguments resolved from the declared dependencies
+ */
+export type ResolvedInjectableDependencies<D extends readonly InjectableDependency[]> = {
+  [K in keyof D]: D[K] extends DefinedComposable
+    ? ReturnType<D[K]['install']>
+    : D[K] extends InjectionToken<infer V> ? NonNullable<V> : never
+}
+
+/**
+ * Prevents inferring the dependencies from the constructor, so they are only inferred from the options
+ */
+type FromOptions<D> = [D][D extends unknown ? 0 : never]
+
+/**
+ * 'singleton' shares one instance per provider, 'transient' constructs a new instance each time it is injected
+ */
+export type Lifetime = 'singleton' | 'transient'
+
+export interface InjectableOptions<T, D extends readonly InjectableDependency[]> extends BaseOptions<T> {
+  /**
+   * The constructor dependencies, in the order of the constructor parameters
+   */
+  dependencies?: D
+  /**
+   * Defaults to 'singleton'
+   */
+  lifetime?: Lifetime
+}
+
+/**
+ * Creates a token for a value that is not provided by a defined composable, e.g. a configuration
+ * @param description - the description of the symbol, used in error messages
+ */
+export function createToken<T>(description: string): InjectionToken<T> {
+  return Symbol(description) as InjectionToken<T>
+}
+
+/**
+ * Composables injecting the tokens declared as dependencies, shared by the classes depending on the same token
+ */
+const tokenComposables = new Map<InjectionKey<unknown>, DefinedComposable>()
+
+function toComposable(dependency: InjectableDependency): DefinedComposable {
+  if (typeof dependency === 'function') return dependency
+  let composable = tokenComposables.get(dependency)
+  if (composable == null) {
+    composable = defineUseDependencyInjection<NonNullable<unknown>>({ key: dependency, name: dependency.description })
+    tokenComposables.set(dependency, composable)
+  }
+  return composable
+}
+
+/**
+ * Defines a composable for Vue that constructs an injectable class, with its constructor dependencies injected.
+ *
+ * @template T - The type of the instances.
+ * @template D - The constructor dependencies.
+ *
+ * @param Class - The injectable class.
+ * @param options - Configuration options for the composable, the same as defineUseDependencyInjection.
+ * @param options.dependencies - Other defined composables or tokens, passed to the constructor in order.
+ * @param options.lifetime - 'singleton' to share one instance per provider, or 'transient' to construct one each time it is injected.
+ *
+ * @returns A UseInitiatedDependencyInjection function.
+ *
+ * @example
+ * const API_URL = createToken<string>('API_URL');
+ * app.provide(API_URL, 'https://api');
+ *
+ * class UserService {
+ *   constructor(readonly http: HttpClient, readonly apiUrl: string) {}
+ * }
+ * const useUserService = defineInjectable(UserService, { dependencies: [useHttpClient, API_URL] });
+ *
+ * // Constructing an instance with its dependencies, and providing it
+ * const userService = useUserService('provide');
+ *
+ * // Injecting the instance, or a new one for each inject with lifetime: 'transient'
+ * const userService = useUserService();
+ */
+export function defineInjectable<T extends object, const D extends readonly InjectableDependency[] = []>(
+  Class: new (...args: Extract<ResolvedInjectableDependencies<FromOptions<D>>, readonly unknown[]>) => T,
+  options?: InjectableOptions<T, D>,
+): UseInitiatedDependencyInjection<T | undefined>
+
+/**
+ * Defines a composable for Vue that constructs an injectable class, with its constructor dependencies injected, and a default value or an error when it is not provided.
+ *
+ * @param Class - The injectable class.
+ * @param options - Configuration options for the composable, see above, with injectDefault or throwOnNoProvider.
+ *
+ * @returns A UseInitiatedDependencyInjection function.
+ */
+export function defineInjectable<T extends object, const D extends readonly InjectableDependency[] = []>(
+  Class: new (...args: Extract<ResolvedInjectableDependencies<FromOptions<D>>, readonly unknown[]>) => T,
+  options: InjectableOptions<T, D> & (WithInjectDefault<T> | WithThrowOnNoProvider),
+): UseInitiatedDependencyInjection<T>
+
+export function defineInjectable<T extends object>(
+  Class: new (...args: any[]) => T,
+  options: InjectableOptions<T, readonly InjectableDependency[]> = {},
+): UseInitiatedDependencyInjection<T | undefined> {
+  const { dependencies = [], lifetime, ...baseOptions } = options
+  // dependencies are resolved by their position, and named after it in errors when they are anonymous
+  const composables: Dependencies = Object.fromEntries(dependencies.map((dependency, index) => [index, toComposable(dependency)]))
+  const composable = defineUseDependencyInjection<T, Dependencies, string>(
+    (resolved: Record<number, unknown>) => new Class(...dependencies.map((_, index) => resolved[index])),
+    { ...baseOptions, name: options.name ?? Class.name, dependencies: composables } as BaseOptions<T>,
+  )
+  getDefinition(composable)!.lifetime = lifetime
+  return composable
+}
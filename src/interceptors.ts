@@ -0,0 +1,127 @@
+import { injectInContext } from './context'
+
+import type { App, ComponentInternalInstance, InjectionKey, Plugin } from 'vue-demi'
+
+export interface ProvideInfo {
+  /** how long the initializer took, in milliseconds */
+  duration: number
+}
+
+/**
+ * Hooks around the provides and injects made through defined composables.
+ * The value returned by onProvide or onInject, when not undefined, replaces the provided or injected value, e.g. to wrap it in a tracing proxy
+ */
+export interface Interceptor {
+  /**
+   * Called when a value is initialized to be provided
+   * @param name - the name of the dependency
+   * @param value - the provided value
+   * @param instance - the providing component, null when provided at the app level or outside a component
+   * @param info - how the value was initialized
+   */
+  onProvide?: (name: string, value: unknown, instance: ComponentInternalInstance | null, info: ProvideInfo) => unknown
+
+  /**
+   * Called when a value is injected
+   * @param name - the name of the dependency
+   * @param source - whether the value came from a provider, the inject default or is missing
+   * @param value - the injected value
+   */
+  onInject?: (name: string, source: 'provider' | 'default' | 'missing', value: unknown) => unknown
+
+  /**
+   * Called when providing or injecting a dependency throws, before the error is rethrown
+   * @param error - the thrown error
+   * @param name - the name of the dependency
+   */
+  onError?: (error: unknown, name: string) => void
+}
+
+const globalInterceptors = new Set<Interceptor>()
+
+const appInterceptors = new WeakMap<App, Interceptor[]>()
+
+/**
+ * Whether any app has interceptors, so composables can skip looking them up otherwise
+ */
+let hasAppInterceptors = false
+
+const INTERCEPTORS_KEY: InjectionKey<Interceptor[]> = Symbol('Interceptors')
+
+/**
+ * Errors already passed to onError, so an error thrown by a dependency is not reported again by its dependents
+ */
+const reportedErrors = new WeakSet<object>()
+
+/**
+ * Adds an interceptor for every app
+ * @returns a function that removes the interceptor
+ */
+export function addInterceptor(interceptor: Interceptor) {
+  globalInterceptors.add(interceptor)
+  return () => {
+    globalInterceptors.delete(interceptor)
+  }
+}
+
+/**
+ * Creates a plugin adding an interceptor for the app it is installed to
+ * @example
+ * app.use(createInterceptorPlugin({
+ *   onInject(name, source) {
+ *     if (source === 'missing') logger.warn(`${name} is not provided`);
+ *   },
+ * }));
+ */
+export function createInterceptorPlugin(interceptor: Interceptor): Plugin {
+  return {
+    install(app: App) {
+      let interceptors = appInterceptors.get(app)
+      if (interceptors == null) {
+        interceptors = []
+        appInterceptors.set(app, interceptors)
+        app.provide(INTERCEPTORS_KEY, interceptors)
+      }
+      interceptors.push(interceptor)
+      hasAppInterceptors = true
+    },
+  }
+}
+
+function getInterceptors(): Interceptor[] {
+  const interceptors = hasAppInterceptors ? injectInContext(INTERCEPTORS_KEY, undefined) as Interceptor[] | undefined : undefined
+  return interceptors != null ? [...globalInterceptors, ...interceptors] : [...globalInterceptors]
+}
+
+/**
+ * Initializes a value to be provided, passing it and the time the initializer took to the interceptors
+ */
+export function interceptProvide<T>(name: string, instance: ComponentInternalInstance | null, initialize: () => T): T {
+  const interceptors = getInterceptors().filter(interceptor => interceptor.onProvide != null)
+  if (interceptors.length === 0) return initialize()
+
+  const start = performance.now()
+  let value = initialize()
+  const info: ProvideInfo = { duration: performance.now() - start }
+  for (const interceptor of interceptors) {
+    const replaced = interceptor.onProvide!(name, value, instance, info)
+    if (replaced !== undefined) value = replaced as T
+  }
+  return value
+}
+
+export function interceptInject<T>(name: string, source: 'provider' | 'default' | 'missing', value: T): T {
+  for (const interceptor of getInterceptors()) {
+    const replaced = interceptor.onInject?.(name, source, value)
+    if (replaced !== undefined) value = replaced as T
+  }
+  return value
+}
+
+export function interceptError(error: unknown, name: string) {
+  if (typeof error === 'object' && error != null) {
+    if (reportedErrors.has(error)) return
+    reportedErrors.add(error)
+  }
+  for (const interceptor of getInterceptors()) interceptor.onError?.(error, name)
+}
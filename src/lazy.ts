@@ -0,0 +1,34 @@
+/**
+ * A provided value that is initialized the first time it is injected, and then cached for the subtree of its provider
+ */
+export class LazyValue<T> {
+  private value: T | undefined
+  private initialized = false
+
+  constructor(protected readonly initializer: () => T) {}
+
+  get isInitialized() {
+    return this.initialized
+  }
+
+  get(): T {
+    if (!this.initialized) {
+      this.value = this.initializer()
+      this.initialized = true
+    }
+    return this.value as T
+  }
+}
+
+/**
+ * A provided value that is initialized again each time it is injected
+ */
+export class TransientValue<T> extends LazyValue<T> {
+  override get(): T {
+    return this.initializer()
+  }
+}
+
+export function unwrapLazy<T>(value: T | LazyValue<T>): T {
+  return value instanceof LazyValue ? value.get() : value
+}
@@ -0,0 +1,105 @@
+import { defineUseAsyncDependencyInjection } from './async'
+
+import type { UseInitiatedAsyncDependencyInjection } from './async'
+import type { Dependencies, ResolvedDependencies, WithDependencies } from './dependencies'
+import type { BaseOptions, Options } from './index'
+
+/**
+ * An initializer, or a module exporting it as default, like the ones returned by `import()`
+ */
+export type InitializerModule<T, D extends Dependencies = Record<string, never>> =
+  | ((dependencies: ResolvedDependencies<D>) => T | Promise<T>)
+  | { default: (dependencies: ResolvedDependencies<D>) => T | Promise<T> }
+
+/**
+ * An async composable whose initializer is loaded on demand, so it is split from the chunks of its providers.
+ * The initializer is loaded when the value is provided, or when it is first injected in provideLazy mode,
+ * and injectors see the loading and its failure in 'handle' mode
+ */
+export interface UseLoadedDependencyInjection<T> extends UseInitiatedAsyncDependencyInjection<T> {
+  /**
+   * Starts loading the initializer before the value is provided, like when hovering a link to a page using it.
+   * A failed load is not cached, it is loaded again and reported when the value is provided
+   */
+  prefetch: () => Promise<void>
+}
+
+/**
+ * Defines an async composable for Vue whose initializer is loaded with a dynamic import.
+ *
+ * @template T - The type of the value to be provided or injected.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param loader - Loads the initializer, or a module exporting it as default. Called once, unless it fails.
+ * @param options - Configuration options for the composable, the same as defineUseAsyncDependencyInjection.
+ *
+ * @returns A UseLoadedDependencyInjection function, a UseInitiatedAsyncDependencyInjection with `prefetch`.
+ *
+ * @example
+ * // pdf.ts: export default () => new PdfRenderer();
+ * const usePdfRenderer = defineUseLoadedDependencyInjection(() => import('./pdf'));
+ *
+ * // Loading it with the provider
+ * const renderer = await usePdfRenderer('provide');
+ * // Or the first time it is injected
+ * usePdfRenderer('provideLazy');
+ *
+ * // Injecting the handle to show the loading and error state
+ * const rendererHandle = usePdfRenderer('handle');
+ *
+ * @see defineUseAsyncDependencyInjection
+ */
+export function defineUseLoadedDependencyInjection<T extends NonNullable<unknown>, D extends Dependencies = Record<string, never>>(
+  loader: () => Promise<InitializerModule<T, D>>,
+  options?: BaseOptions<T> & Partial<WithDependencies<D>>,
+): UseLoadedDependencyInjection<T | undefined>
+
+/**
+ * Defines an async composable for Vue whose initializer is loaded with a dynamic import.
+ *
+ * @template T - The type of the value to be provided or injected.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param loader - Loads the initializer, or a module exporting it as default. Called once, unless it fails.
+ * @param options - Configuration options for the composable, the same as defineUseAsyncDependencyInjection.
+ *
+ * @returns A UseLoadedDependencyInjection function, a UseInitiatedAsyncDependencyInjection with `prefetch`.
+ *
+ * @see defineUseAsyncDependencyInjection
+ */
+export function defineUseLoadedDependencyInjection<T extends NonNullable<unknown>, D extends Dependencies = Record<string, never>>(
+  loader: () => Promise<InitializerModule<T, D>>,
+  options: Partial<Options<T>> & Partial<WithDependencies<D>>,
+): UseLoadedDependencyInjection<T>
+
+export function defineUseLoadedDependencyInjection<T extends NonNullable<unknown>>(
+  loader: () => Promise<InitializerModule<T, Dependencies>>,
+  options: Partial<Options<T> & WithDependencies<Dependencies>> = {},
+): UseLoadedDependencyInjection<T | undefined> {
+  if (typeof loader !== 'function') {
+    throw new TypeError('[defineUseLoadedDependencyInjection] first argument must be a loader function')
+  }
+
+  let loading: Promise<(dependencies: ResolvedDependencies<Dependencies>) => T | Promise<T>> | undefined
+  const load = () => {
+    loading ??= loader().then(
+      loaded => typeof loaded === 'function' ? loaded : loaded.default,
+      (error) => {
+        // loaded again next time, like a chunk that failed on a flaky network
+        loading = undefined
+        throw error
+      },
+    )
+    return loading
+  }
+
+  // dependencies are resolved by the provider, while the initializer is loading
+  const useLoaded = defineUseAsyncDependencyInjection<T, Dependencies>(
+    dependencies => load().then(initializer => initializer(dependencies)),
+    options as Partial<Options<T>> & Partial<WithDependencies<Dependencies>>,
+  ) as UseLoadedDependencyInjection<T | undefined>
+
+  useLoaded.prefetch = () => load().then(() => {}, () => {})
+
+  return useLoaded
+}
@@ -0,0 +1,32 @@
+import { defineComponent } from 'vue-demi'
+
+import type { OverrideOptions, UseDependencyInjection, UseInitiatedDependencyInjection } from './index'
+import type { DefineComponent } from 'vue-demi'
+
+/**
+ * An Options API mixin exposing the value of a composable as a computed property of the component, typed on `this`
+ */
+// eslint-disable-next-line ts/no-empty-object-type
+export type DependencyMixin<P extends string, T> = DefineComponent<{}, {}, {}, { [K in P]: () => T }>
+
+/**
+ * Creates the mixin factory of a composable. The composable is called before the component is created,
+ * so injectDefault, throwOnNoProvider and the other options behave the same as in setup
+ */
+export function createMixinFactory<T>(composable: UseDependencyInjection<T>) {
+  return function mixin(property: string, $arg1?: unknown, $arg2?: unknown) {
+    const args = $arg1 === 'provide' ? ['provide', $arg2] : ['inject', ($arg1 ?? {}) as OverrideOptions<T>]
+    // `this` is the same public instance in beforeCreate and in the computed getters
+    const values = new WeakMap<object, unknown>()
+    return defineComponent({
+      beforeCreate() {
+        values.set(this, (composable as (...args: unknown[]) => unknown)(...args))
+      },
+      computed: {
+        [property]() {
+          return values.get(this)
+        },
+      },
+    })
+  } as unknown as UseInitiatedDependencyInjection<T>['mixin']
+}
@@ -0,0 +1,153 @@
+import defineUseDependencyInjection from './index'
+
+import { getContainerProvides, provideInContext } from './context'
+import { describeKey, initializeWithDependencies } from './dependencies'
+import { callInternally } from './diagnostics'
+import { disposeOnScopeDispose } from './dispose'
+import { DependencyNotInitializedError } from './errors'
+
+import { computed, getCurrentInstance, getCurrentScope, onScopeDispose, shallowReactive } from 'vue-demi'
+
+import type { Definition, Dependencies, ResolvedDependencies, WithDependencies } from './dependencies'
+import type { BaseOptions } from './index'
+import type { ComputedRef, InjectionKey } from 'vue-demi'
+
+/**
+ * The contributions of one provider, linked to the contributions of its nearest providing ancestor
+ */
+interface Contributions<T> {
+  parent: Contributions<T> | undefined
+  items: T[]
+}
+
+export type MultiOptions<T> = Omit<BaseOptions<T>, 'key'> & {
+  key?: InjectionKey<unknown> | string
+}
+
+/**
+ * A composable for a collection of contributions in a Vue component. It can be used in 'provide' or 'inject' mode.
+ * Each provide contributes an item, inject returns the contributions from the root to the nearest ancestor.
+ * A contribution is removed when the component or effect scope that provided it is disposed.
+ * It is not initialized, so in provide mode, initializer needs to be passed in
+ * @param mode=inject - 'provide' or 'inject'
+ * @param initializer - initializer of the contribution for provide mode
+ * @see defineUseMultiDependencyInjection
+ */
+export interface UseMultiDependencyInjection<T> {
+  (mode: 'provide', initializer: () => T): T
+
+  (): ComputedRef<readonly T[]>
+  (mode: 'inject'): ComputedRef<readonly T[]>
+}
+
+/**
+ * A composable for a collection of contributions in a Vue component. It can be used in 'provide' or 'inject' mode.
+ * It is initialized, so in provide mode, initializer is not needed, and still can be passed in to override the default initializer
+ */
+export interface UseInitiatedMultiDependencyInjection<T> extends UseMultiDependencyInjection<T> {
+  (mode: 'provide'): T
+}
+
+/**
+ * Defines a composable for Vue that collects contributions from every providing ancestor, instead of the nearest one shadowing the others.
+ *
+ * @template T - The type of the contributions.
+ *
+ * @param options - Configuration options for the composable.
+ * @param options.key - An optional InjectionKey or string to uniquely identify the collection in the Vue application's dependency injection system.
+ * @param options.name - An optional name of the collection, used as the description of the generated key and in error messages.
+ * @param options.dispose - An optional function called with a contribution when the component or effect scope that provided it is disposed.
+ *
+ * @returns A UseMultiDependencyInjection function
+ *
+ * @example
+ * const useMenuItems = defineUseMultiDependencyInjection<MenuItem>();
+ *
+ * // Contributing at each level
+ * useMenuItems('provide', () => ({ label: 'Settings' }));
+ *
+ * // Injecting the contributions from the root to the nearest ancestor
+ * const menuItems = useMenuItems();
+ */
+export function defineUseMultiDependencyInjection<T extends NonNullable<unknown>>(
+  options?: MultiOptions<T>,
+): UseMultiDependencyInjection<T>
+
+/**
+ * Defines a composable for Vue that collects contributions from every providing ancestor, instead of the nearest one shadowing the others.
+ *
+ * @template T - The type of the contributions.
+ * @template D - The other defined composables the initializer depends on.
+ *
+ * @param initializer - An initializer for the contribution. Receives the resolved dependencies.
+ * @param options - Configuration options for the composable, see above.
+ * @param options.dependencies - Other defined composables the initializer depends on.
+ *
+ * @returns A UseInitiatedMultiDependencyInjection function
+ */
+export function defineUseMultiDependencyInjection<T extends NonNullable<unknown>, D extends Dependencies = Record<string, never>>(
+  initializer: (dependencies: ResolvedDependencies<D>) => T,
+  options?: MultiOptions<T> & Partial<WithDependencies<D>>,
+): UseInitiatedMultiDependencyInjection<T>
+
+export function defineUseMultiDependencyInjection<T extends NonNullable<unknown>>(
+  arg0: ((dependencies: Record<string, unknown>) => T) | MultiOptions<T> | undefined = undefined,
+  arg1: (MultiOptions<T> & Partial<WithDependencies<Dependencies>>) | undefined = undefined,
+): UseInitiatedMultiDependencyInjection<T> {
+  if (arg0 != null && arg1 != null && typeof arg0 !== 'function') {
+    throw new TypeError('[defineUseMultiDependencyInjection] first argument must be a initializer function when two arguments are provided')
+  }
+  const initializer = typeof arg0 === 'function' ? arg0 : undefined
+  const options: MultiOptions<T> & Partial<WithDependencies<Dependencies>> = (typeof arg0 === 'function' ? arg1 : arg0) ?? {}
+
+  // the key is generated by the contributions composable, or kept from the previous version with the hot option
+  const useContributions = defineUseDependencyInjection<Contributions<T>>({ key: options.key as InjectionKey<Contributions<T>> | undefined, name: options.name, hot: options.hot })
+  const { key } = useContributions
+  const name = options.name ?? describeKey(key)
+  const definition: Definition<T> = { key, name: options.name, initializer, dependencies: options.dependencies }
+
+  // the contributions provided by each component or container, so one that provides several times contributes to the same collection
+  const ownContributions = new WeakMap<object, Contributions<T>>()
+
+  const useMultiDependencyInjection = function UseMultiDependencyInjection($arg0: unknown, $arg1: unknown) {
+    // mode: 'provide'
+
+    if ($arg0 === 'provide') {
+      if ($arg1 != null && typeof $arg1 !== 'function') {
+        throw new TypeError('[useMultiDependencyInjection] second argument must be a function when mode is \'provide\'')
+      }
+      const owner = getContainerProvides() ?? getCurrentInstance()
+      let contributions = owner != null ? ownContributions.get(owner) : undefined
+      if (contributions == null) {
+        const parent = callInternally(() => useContributions('inject', { from: 'parent' }))
+        contributions = { parent, items: shallowReactive([]) }
+        callInternally(() => useContributions('provide', () => contributions))
+        if (owner != null) ownContributions.set(owner, contributions)
+      }
+
+      const item = ($arg1 as (() => T) | undefined)?.() ?? initializeWithDependencies(definition, provideInContext)
+      if (item == null) throw new DependencyNotInitializedError(name)
+      contributions.items.push(item)
+      if (getCurrentScope() != null) {
+        const { items } = contributions
+        onScopeDispose(() => {
+          items.splice(items.indexOf(item), 1)
+        })
+      }
+      disposeOnScopeDispose(item, options.dispose)
+
+      return item
+    }
+
+    // mode: 'inject'
+
+    const contributions = callInternally(() => useContributions('inject'))
+    return computed(() => {
+      const items: T[] = []
+      for (let current = contributions; current != null; current = current.parent) items.unshift(...current.items)
+      return items
+    })
+  } as UseInitiatedMultiDependencyInjection<T>
+
+  return useMultiDependencyInjection
+}
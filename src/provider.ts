@@ -0,0 +1,88 @@
+import { defineComponent } from 'vue-demi'
+
+import type { DefinedComposable } from './dependencies'
+import type { UseDependencyInjection } from './index'
+import type { PropType, VNode } from 'vue-demi'
+
+/**
+ * A renderless component providing the value of a composable to its default slot, and exposing it through the slot props.
+ * The value is provided once when the component is created, later changes of the props are not applied
+ */
+export interface DependencyProvider<T> {
+  new(): {
+    $props: {
+      /**
+       * Initializer overriding the default one of the composable
+       */
+      initializer?: () => T
+      /**
+       * Value provided instead of initializing one
+       */
+      value?: NonNullable<T>
+    }
+    $slots: {
+      default?: (props: { value: NonNullable<T> }) => VNode[]
+    }
+  }
+}
+
+/**
+ * The components providing values to their slot, see isProviderComponent
+ */
+const providerComponents = new WeakSet<object>()
+
+/**
+ * Whether a component is a DependencyProvider or DependencyProviders, whose values are meant for whatever their slot renders
+ */
+export function isProviderComponent(component: unknown): boolean {
+  return typeof component === 'object' && component != null && providerComponents.has(component)
+}
+
+/**
+ * A composable to provide, optionally with an initializer overriding its default one
+ */
+export type ProviderEntry = DefinedComposable | readonly [composable: DefinedComposable, initializer: () => unknown]
+
+/**
+ * A renderless component providing the values of many composables to its default slot, in order, and exposing them through the slot props
+ * @example
+ * <DependencyProviders :providers="[useMyDependency, [useMyService, () => newMyService()]]" v-slot="{ values: [myDependency, myService] }">
+ *   ...
+ * </DependencyProviders>
+ */
+export const DependencyProviders = defineComponent({
+  name: 'DependencyProviders',
+  props: {
+    providers: {
+      type: Array as PropType<ProviderEntry[]>,
+      required: true,
+    },
+  },
+  setup(props, { slots }) {
+    const values = props.providers.map((entry) => {
+      const [composable, initializer] = typeof entry === 'function' ? [entry] : entry
+      // the initializer is checked against the value of the composable by the caller
+      return composable('provide', initializer as (() => never) | undefined)
+    })
+    return () => slots.default?.({ values })
+  },
+})
+providerComponents.add(DependencyProviders)
+
+export function createProvider<T>(composable: UseDependencyInjection<T>, name: string | undefined): DependencyProvider<T> {
+  const Provider = defineComponent({
+    name: name != null ? `${name}Provider` : 'DependencyProvider',
+    props: {
+      initializer: Function as PropType<() => unknown>,
+      // any type
+      value: null,
+    },
+    setup(props, { slots }) {
+      const { value } = props
+      const provided = composable('provide', (value != null ? () => value : props.initializer) as () => T)
+      return () => slots.default?.({ value: provided })
+    },
+  })
+  providerComponents.add(Provider)
+  return Provider as unknown as DependencyProvider<T>
+}
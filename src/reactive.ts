@@ -0,0 +1,61 @@
+import { customRef, readonly } from 'vue-demi'
+
+import type { Ref } from 'vue-demi'
+
+/**
+ * Handles provided in provideReactive mode, their values are checked when they are provided and swapped
+ */
+const handles = new WeakSet<object>()
+
+/**
+ * Creates the ref a provider swaps its value through
+ * @param value - the initial value
+ * @param swap - called with the new and the previous value when the ref is set, returning the value to store
+ */
+export function createSwappableRef<T extends object>(value: T, swap: (value: T, previous: T) => T): Ref<T> {
+  return customRef((track, trigger) => ({
+    get() {
+      track()
+      return value
+    },
+    set(newValue) {
+      if (newValue === value) return
+      value = swap(newValue, value)
+      trigger()
+    },
+  }))
+}
+
+/**
+ * Creates a stable handle forwarding to the current value of a ref, so injectors follow the swaps of the provider,
+ * and their computed, watchers and templates reading it are updated
+ * @param ref - the ref of the provider
+ * @param isReadonly - whether injectors get a readonly view of the value
+ */
+export function createHandle<T extends object>(ref: Ref<T>, isReadonly: boolean): T {
+  const current = () => (isReadonly ? readonly(ref.value) : ref.value) as T & object
+  const handle = new Proxy({} as T, {
+    get(_, property) {
+      const target = current()
+      const value = Reflect.get(target, property, target)
+      // methods run on the current value rather than on the handle, e.g. for private fields
+      return typeof value === 'function' ? value.bind(target) : value
+    },
+    set: (_, property, value) => Reflect.set(current(), property, value),
+    deleteProperty: (_, property) => Reflect.deleteProperty(current(), property),
+    has: (_, property) => Reflect.has(current(), property),
+    ownKeys: () => Reflect.ownKeys(current()),
+    getOwnPropertyDescriptor(_, property) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(current(), property)
+      // the empty target doesn't have the property, so it can't be reported as non-configurable
+      return descriptor && { ...descriptor, configurable: true }
+    },
+    getPrototypeOf: () => Reflect.getPrototypeOf(current()),
+  })
+  handles.add(handle)
+  return handle
+}
+
+export function isHandle(value: unknown): boolean {
+  return typeof value === 'object' && value != null && handles.has(value)
+}
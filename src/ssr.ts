@@ -0,0 +1,90 @@
+import { injectInContext } from './context'
+
+import type { App, InjectionKey } from 'vue-demi'
+
+/**
+ * Opt-in pair to dump the state of a provided value into the SSR payload, and restore it on the client
+ */
+export interface WithSerialize<T> {
+  /**
+   * Returns the state of a value provided on the server, it must be serializable into the payload, e.g. with JSON
+   */
+  serialize: (value: NonNullable<T>) => unknown
+  /**
+   * Creates the value provided on the client from the state serialized on the server, instead of initializing it
+   */
+  hydrate: (state: unknown) => T
+}
+
+/**
+ * The state of the values provided in an app, collected on the server and restored on the client. It is a plugin installing itself to the app
+ */
+export interface DependencyState {
+  install: (app: App) => void
+  /**
+   * Serializes the values provided so far in the app, call it after rendering to put the result into the SSR payload
+   */
+  serialize: () => Record<string, unknown>
+}
+
+interface StateRecord {
+  /** how many values of each dependency were provided, to identify them in render order */
+  counts: Map<string, number>
+  /** the states to hydrate from, removed once hydrated */
+  initialState: Record<string, unknown>
+  serializers: Map<string, () => unknown>
+}
+
+const DEPENDENCY_STATE_KEY: InjectionKey<StateRecord> = Symbol('DependencyState')
+
+/**
+ * Creates the state of an app, to be installed in each app created for a request on the server, and in the app hydrated on the client
+ * @param initialState - the state serialized on the server, to hydrate from on the client
+ * @example
+ * // On the server
+ * const dependencyState = createDependencyState();
+ * app.use(dependencyState);
+ * const html = await renderToString(app);
+ * const payload = JSON.stringify(dependencyState.serialize());
+ *
+ * // On the client
+ * app.use(createDependencyState(window.__DEPENDENCY_STATE__));
+ */
+export function createDependencyState(initialState: Record<string, unknown> = {}): DependencyState {
+  const record: StateRecord = { counts: new Map(), initialState: { ...initialState }, serializers: new Map() }
+
+  return {
+    install(app: App) {
+      app.provide(DEPENDENCY_STATE_KEY, record)
+    },
+    serialize: () => Object.fromEntries([...record.serializers].map(([id, serialize]) => [id, serialize()])),
+  }
+}
+
+/**
+ * Initializes a value, or hydrates it from the state of the app when it was serialized on the server.
+ * Values of a dependency are identified by their name and the order they are provided in, which is the same on the server and the client.
+ */
+export function initializeWithState<T>(name: string, options: Partial<WithSerialize<T>>, initialize: () => T): T {
+  const { serialize, hydrate } = options
+  const record = serialize != null || hydrate != null
+    ? injectInContext(DEPENDENCY_STATE_KEY, undefined) as StateRecord | undefined
+    : undefined
+  if (record == null) return initialize()
+
+  const count = record.counts.get(name) ?? 0
+  record.counts.set(name, count + 1)
+  const id = count === 0 ? name : `${name}:${count}`
+
+  let value: T
+  if (hydrate != null && id in record.initialState) {
+    value = hydrate(record.initialState[id])
+    delete record.initialState[id]
+  }
+  else {
+    value = initialize()
+  }
+  if (serialize != null && value != null) record.serializers.set(id, () => serialize(value!))
+
+  return value
+}
@@ -0,0 +1,105 @@
+import { createReadyHandle, getHandleComposable } from './async'
+import { getDefinition } from './dependencies'
+import { DependencyNotMockedError } from './errors'
+import { onAppUnmount, onTrack } from './tracking'
+
+import type { UseAsyncDependencyInjection } from './async'
+import type { DefinedComposable } from './dependencies'
+import type { UseDependencyInjection } from './index'
+import type { InjectEvent } from './tracking'
+import type { App, InjectionKey, Plugin } from 'vue-demi'
+
+export { DependencyNotMockedError } from './errors'
+export type { InjectEvent, InjectSource } from './tracking'
+
+/**
+ * A defined composable and the value to provide for it instead of initializing it
+ */
+export type DependencyMock<T> = readonly [composable: UseDependencyInjection<T> | UseAsyncDependencyInjection<T>, value: NonNullable<T>]
+
+export interface MockOptions {
+  /**
+   * Throws a DependencyNotMockedError when a component injects a dependency that is neither mocked nor provided in the mounted tree
+   */
+  strict?: boolean
+}
+
+/**
+ * Mocked dependencies for mounted components, with spies of what the components injected
+ */
+export interface MockedDependencies {
+  /**
+   * The `global` mounting options of `@vue/test-utils`, providing the mocks at the app level
+   */
+  global: {
+    provide: Record<string | symbol, unknown>
+    plugins: Plugin[]
+  }
+
+  /**
+   * The injects made through defined composables in the mounted apps, in order
+   */
+  injections: InjectEvent[]
+
+  /**
+   * How many times a composable was injected
+   */
+  injectCount: (composable: DefinedComposable) => number
+
+  /**
+   * Whether a composable was injected
+   */
+  wasInjected: (composable: DefinedComposable) => boolean
+}
+
+function keyOf(composable: object): InjectionKey<unknown> | string {
+  const definition = getDefinition(getHandleComposable(composable) ?? composable)
+  if (definition == null) {
+    throw new TypeError('[mockDependencies] composable is not defined by defineUseDependencyInjection or defineUseAsyncDependencyInjection')
+  }
+  return definition.key
+}
+
+/**
+ * Mocks dependencies of mounted components, without fake parent components providing them
+ * @param mocks - pairs of a defined composable and its mock value
+ * @param options - mock options
+ * @example
+ * const dependencies = mockDependencies([[useApi, fakeApi], [useLogger, fakeLogger]], { strict: true });
+ * const wrapper = mount(MyComponent, { global: dependencies.global });
+ *
+ * expect(dependencies.wasInjected(useApi)).toBe(true);
+ */
+export function mockDependencies(mocks: readonly (readonly [composable: DefinedComposable, value: NonNullable<unknown>])[], options: MockOptions = {}): MockedDependencies {
+  const provide: Record<string | symbol, unknown> = {}
+  for (const [composable, value] of mocks) {
+    provide[keyOf(composable) as unknown as string | symbol] = getHandleComposable(composable) != null ? createReadyHandle(value) : value
+  }
+
+  const injections: InjectEvent[] = []
+  const spyPlugin: Plugin = {
+    install(app: App) {
+      const stop = onTrack((event) => {
+        if (event.type !== 'inject' || event.instance?.appContext?.app !== app) return
+
+        injections.push(event)
+        if (options.strict && (event.source === 'default' || event.source === 'missing')) {
+          throw new DependencyNotMockedError(event.label)
+        }
+      })
+      onAppUnmount(app, stop)
+    },
+  }
+
+  const injectCount = (composable: object) => {
+    const key = keyOf(composable)
+    return injections.filter(event => event.key === key).length
+  }
+
+  return {
+    global: { provide, plugins: [spyPlugin] },
+    injections,
+    injectCount,
+    wasInjected: composable => injectCount(composable) > 0,
+  }
+}
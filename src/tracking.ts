@@ -0,0 +1,119 @@
+import { getCurrentInstance } from 'vue-demi'
+
+import type { App, ComponentInternalInstance, InjectionKey } from 'vue-demi'
+
+/**
+ * Where an injected value came from: an ancestor or the app, the inject default, nowhere, or nowhere and throwOnNoProvider threw
+ */
+export type InjectSource = 'provider' | 'default' | 'missing' | 'threw'
+
+export interface ProvideEvent {
+  type: 'provide'
+  key: InjectionKey<unknown> | string
+  label: string
+  value: unknown
+  /** the providing component, null when provided at the app level */
+  instance: ComponentInternalInstance | null
+  app: App | null
+}
+
+export interface InjectEvent {
+  type: 'inject'
+  key: InjectionKey<unknown> | string
+  label: string
+  value: unknown
+  source: InjectSource
+  /** the injecting component, null when injected outside a component */
+  instance: ComponentInternalInstance | null
+  /** the component the value was injected from, null when it is provided at the app level */
+  provider: ComponentInternalInstance | null | undefined
+}
+
+export type TrackEvent = ProvideEvent | InjectEvent
+
+export type TrackListener = (event: TrackEvent) => void
+
+const listeners = new Set<TrackListener>()
+
+/**
+ * Whether anything listens to provide and inject, so composables can skip building the events otherwise
+ */
+export function isTracking() {
+  return listeners.size > 0
+}
+
+export function track(event: TrackEvent) {
+  listeners.forEach(listener => listener(event))
+}
+
+/**
+ * Listens to every provide and inject made through defined composables
+ * @param listener - called with each provide and inject event
+ * @returns a function that stops listening
+ */
+export function onTrack(listener: TrackListener) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Calls back when the app is unmounted, before its components are.
+ * Vue before 3.5 and Vue 2 have no app.onUnmount, app.unmount is wrapped instead
+ */
+export function onAppUnmount(app: App, callback: () => void) {
+  if (typeof app.onUnmount === 'function') {
+    app.onUnmount(callback)
+    return
+  }
+  const unmount = app.unmount
+  app.unmount = () => {
+    callback()
+    unmount()
+  }
+}
+
+/**
+ * Finds the ancestor that provided a key to a component, the same way inject resolves it.
+ * A component shares the provides of its parent until it provides something itself.
+ * @returns the providing component, null when provided at the app level, undefined when not provided
+ */
+export function findProvider(
+  instance: ComponentInternalInstance | null,
+  key: InjectionKey<unknown> | string,
+): ComponentInternalInstance | null | undefined {
+  const property = key as unknown as string | symbol
+  const providesOf = (i: ComponentInternalInstance | null) => (i as { provides?: Record<string | symbol, unknown> } | null)?.provides
+
+  for (let current = instance?.parent ?? null; current != null; current = current.parent) {
+    const provides = providesOf(current)
+    if (provides !== providesOf(current.parent) && provides != null && Object.prototype.hasOwnProperty.call(provides, property)) {
+      return current
+    }
+  }
+  // the app context is not exposed by Vue 2
+  const appProvides = instance?.appContext?.provides
+  return appProvides != null && property in appProvides ? null : undefined
+}
+
+export function componentName(instance: ComponentInternalInstance | null) {
+  if (instance == null) return 'App'
+  // Vue 2 only exposes the public instance, whose options hold the name
+  const type = (instance.type ?? (instance.proxy as { $options?: object } | null)?.$options ?? {}) as { name?: string, __name?: string }
+  // components without a name are named after how they are registered, like Vue warnings do
+  const registries = [(instance.parent?.type as { components?: Record<string, unknown> } | undefined)?.components, instance.appContext?.components]
+  const registered = registries.map(registry => Object.keys(registry ?? {}).find(key => registry![key] === type)).find(Boolean)
+  return `<${type.name ?? type.__name ?? registered ?? 'Anonymous'}>`
+}
+
+/**
+ * Names of the components from the given one up to the root
+ */
+export function getComponentHierarchy(instance: ComponentInternalInstance | null = getCurrentInstance()) {
+  const hierarchy: string[] = []
+  // Vue 2 only exposes the public instance, not the parents
+  if (instance?.type == null) return hierarchy
+  for (let current: ComponentInternalInstance | null = instance; current != null; current = current.parent) hierarchy.push(componentName(current))
+  return hierarchy
+}
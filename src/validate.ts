@@ -0,0 +1,62 @@
+/**
+ * The Standard Schema interface implemented by validation libraries like Zod, Valibot or ArkType, see https://standardschema.dev
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => StandardSchemaV1.Result<Output> | Promise<StandardSchemaV1.Result<Output>>
+    readonly types?: { readonly input: Input, readonly output: Output } | undefined
+  }
+}
+
+// eslint-disable-next-line ts/no-namespace
+export declare namespace StandardSchemaV1 {
+  type Result<Output> = { readonly value: Output, readonly issues?: undefined } | { readonly issues: ReadonlyArray<Issue> }
+
+  interface Issue {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined
+  }
+}
+
+/**
+ * A type guard or a Standard Schema checking a provided or injected value
+ */
+export type Validator<T> = ((value: unknown) => value is T) | StandardSchemaV1<unknown, T>
+
+/**
+ * What to do with an invalid value: throw a DependencyValidationError, warn and use it anyway, or fall back to injectDefault
+ */
+export type InvalidPolicy = 'throw' | 'warn' | 'default'
+
+export interface WithValidate<T> {
+  /**
+   * A type guard or a Standard Schema checking the value when it is provided and when it is injected, `T` is inferred from it
+   */
+  validate: Validator<T>
+  /**
+   * What to do with an invalid value, defaults to 'throw'
+   */
+  onInvalid?: InvalidPolicy
+}
+
+/**
+ * Checks a value, returning the value, transformed by the schema if any, or the issues found
+ */
+export function runValidator<T>(validator: Validator<T>, value: unknown): StandardSchemaV1.Result<T> {
+  if (typeof validator === 'function') {
+    return validator(value) ? { value } : { issues: [{ message: 'type guard rejected the value' }] }
+  }
+
+  const result = validator['~standard'].validate(value)
+  if (result instanceof Promise) {
+    throw new TypeError('[useDependencyInjection] validate must be synchronous, the schema returned a promise')
+  }
+  return result
+}
+
+export function describeIssue(issue: StandardSchemaV1.Issue) {
+  const path = issue.path?.map(segment => typeof segment === 'object' ? segment.key : segment).map(String).join('.')
+  return path ? `${path}: ${issue.message}` : issue.message
+}
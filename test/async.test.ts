@@ -0,0 +1,107 @@
+import { flushPromises, mount } from '@vue/test-utils'
+import { describe, it } from 'vitest'
+import { Suspense, createApp, defineComponent, h } from 'vue'
+
+import { defineUseAsyncDependencyInjection } from '~'
+
+import type { AsyncDependencyHandle } from '~'
+
+interface Config {
+  msg: string
+}
+
+function mountWithSuspense(setupParent: () => Promise<unknown>, setupChild: () => unknown) {
+  const ChildComponent = defineComponent({
+    async setup() {
+      return { injected: await setupChild() }
+    },
+    render: () => null,
+  })
+  const ParentComponent = defineComponent({
+    async setup() {
+      return { provided: await setupParent() }
+    },
+    render: () => h(ChildComponent),
+  })
+  const wrapper = mount(defineComponent({
+    render: () => h(Suspense, null, { default: () => h(ParentComponent) }),
+  }))
+  return [wrapper, ParentComponent, ChildComponent] as const
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`defineUseAsyncDependencyInjection correct behavior`, () => {
+  it(`provider suspends until initialized and injectors get the resolved value`, async ({ expect }) => {
+    const u = defineUseAsyncDependencyInjection<Config>(async () => ({ msg: '[initializer]' }))
+    const [wrapper, ParentComponent, ChildComponent] = mountWithSuspense(() => u('provide'), () => u())
+
+    expect(wrapper.findComponent(ParentComponent).exists()).toBe(false)
+    await flushPromises()
+
+    expect(wrapper.getComponent(ParentComponent).vm.provided).toEqual({ msg: '[initializer]' })
+    expect(wrapper.getComponent(ChildComponent).vm.injected).toBe(wrapper.getComponent(ParentComponent).vm.provided)
+  })
+
+  it(`override initializer`, async ({ expect }) => {
+    const u = defineUseAsyncDependencyInjection<Config>(async () => ({ msg: '[initializer]' }))
+    const [wrapper, _, ChildComponent] = mountWithSuspense(() => u('provide', async () => ({ msg: '[overrideInitializer]' })), () => u())
+    await flushPromises()
+
+    expect(wrapper.getComponent(ChildComponent).vm.injected).toEqual({ msg: '[overrideInitializer]' })
+  })
+
+  it(`handle tracks pending, ready and error states`, async ({ expect }) => {
+    let resolve!: (config: Config) => void
+    let reject!: (error: Error) => void
+    const ready = defineUseAsyncDependencyInjection<Config>(() => new Promise<Config>((...args) => [resolve] = args))
+    const failed = defineUseAsyncDependencyInjection<Config>(() => new Promise<Config>((...args) => [, reject] = args))
+    const handles: (AsyncDependencyHandle<Config> | undefined)[] = []
+
+    const ChildComponent = defineComponent({
+      setup() {
+        handles.push(ready('handle'), failed('handle'))
+      },
+      render: () => null,
+    })
+    mount(defineComponent({
+      setup() {
+        void ready('provide')
+        void failed('provide')
+      },
+      render: () => h(ChildComponent),
+    }))
+    expect(handles.map(handle => handle?.status)).toEqual(['pending', 'pending'])
+
+    resolve({ msg: '[ready]' })
+    reject(new Error('[failed]'))
+    await flushPromises()
+
+    expect(handles[0]).toMatchObject({ status: 'ready', value: { msg: '[ready]' } })
+    expect(handles[1]).toMatchObject({ status: 'error', error: new Error('[failed]') })
+    await expect(handles[1]?.promise).rejects.toThrow(/\[failed\]/)
+  })
+
+  it(`injectDefault is wrapped in a ready handle`, async ({ expect }) => {
+    const u = defineUseAsyncDependencyInjection<Config>({ injectDefault: () => ({ msg: '[injectDefault]' }) })
+    const [wrapper, _, ChildComponent] = mountWithSuspense(async () => undefined, () => u('handle'))
+    await flushPromises()
+
+    expect(wrapper.getComponent(ChildComponent).vm.injected).toMatchObject({ status: 'ready', value: { msg: '[injectDefault]' } })
+  })
+
+  it(`handle is undefined when not provided`, async ({ expect }) => {
+    const u = defineUseAsyncDependencyInjection<Config>(async () => ({ msg: '[initializer]' }))
+    const [wrapper, _, ChildComponent] = mountWithSuspense(async () => undefined, () => u('handle'))
+    await flushPromises()
+
+    expect(wrapper.getComponent(ChildComponent).vm.injected).toBeUndefined()
+  })
+
+  it(`resolving to nullish rejects with not initialized`, async ({ expect }) => {
+    const u = defineUseAsyncDependencyInjection<Config>({ key: 'config' })
+    const app = createApp({ render: () => null })
+
+    await expect(u.install(app, async () => undefined)).rejects.toThrow(/`config` is not initialized/)
+    expect(app.runWithContext(() => u('handle'))).toMatchObject({ status: 'error', error: expect.objectContaining({ message: expect.stringMatching(/`config` is not initialized/) }) })
+  })
+})
@@ -0,0 +1,60 @@
+import { mount } from '@vue/test-utils'
+import { defineComponent, h } from 'vue'
+
+import type { MountingOptions } from '@vue/test-utils'
+import type { Component } from 'vue'
+
+/**
+ * A component running setup, and rendering the children
+ */
+export function createComponent(setup: () => unknown, ...children: Component[]) {
+  return defineComponent({
+    setup() {
+      setup()
+      return () => children.map(child => h(child))
+    },
+  })
+}
+
+/**
+ * A parent component rendering a child component, exposing what their setups return as `provided` and `injected`.
+ * Without setupChild, the parent renders nothing
+ */
+export function createComponents<P, C = undefined>(setupParent: () => P, setupChild?: () => C) {
+  const ChildComponent = defineComponent({
+    setup() {
+      const injected = setupChild?.() as C
+      return {
+        injected,
+      }
+    },
+    render() {
+      return null
+    },
+  })
+
+  const ParentComponent = defineComponent({
+    components: {
+      ChildComponent,
+    },
+    setup() {
+      const provided = setupParent()
+      return {
+        provided,
+      }
+    },
+    render() {
+      return setupChild != null ? h(ChildComponent) : null
+    },
+  })
+  return [ParentComponent, ChildComponent] as const
+}
+
+/**
+ * Mounts the components of createComponents, the global mounting options can add plugins, provides or a warnHandler at the app level
+ */
+export function mountComponents<P, C = undefined>(setupParent: () => P, setupChild?: () => C, global: NonNullable<MountingOptions<object>['global']> = {}) {
+  const [ParentComponent, ChildComponent] = createComponents(setupParent, setupChild)
+  const wrapper = mount(ParentComponent, { global })
+  return [wrapper, ChildComponent] as const
+}
@@ -0,0 +1,99 @@
+import { describe, it, vi } from 'vitest'
+import { createApp } from 'vue'
+
+import defineUseDependencyInjection, { createContainer, runInInjectionContext } from '~'
+
+interface Logger {
+  prefix: string
+}
+
+const useLogger = defineUseDependencyInjection<Logger>(() => ({ prefix: '[logger]' }))
+
+describe.concurrent(`createContainer correct behavior`, () => {
+  it(`provide and resolve`, async ({ expect }) => {
+    const container = createContainer()
+    const provided = container.provide(useLogger)
+
+    expect(container.resolve(useLogger)).toBe(provided)
+    expect(container.run(() => useLogger())).toBe(provided)
+  })
+
+  it(`provide with override initializer`, async ({ expect }) => {
+    const container = createContainer()
+    container.provide(useLogger, () => ({ prefix: '[override]' }))
+
+    expect(container.resolve(useLogger)?.prefix).toBe('[override]')
+  })
+
+  it(`resolve keeps injectDefault and throwOnNoProvider semantics`, async ({ expect }) => {
+    const container = createContainer()
+    const useDefault = defineUseDependencyInjection<Logger>({ injectDefault: () => ({ prefix: '[default]' }) })
+    const useStrict = defineUseDependencyInjection<Logger>({ name: 'Strict', throwOnNoProvider: true })
+
+    expect(container.resolve(useLogger)).toBeUndefined()
+    expect(container.resolve(useDefault).prefix).toBe('[default]')
+    expect(container.resolve(useLogger, { injectDefault: { prefix: '[override default]' } }).prefix).toBe('[override default]')
+    expect(() => container.resolve(useStrict)).toThrow(/value `Strict` is not provided/)
+  })
+
+  it(`child containers resolve from their parent unless they provide themselves`, async ({ expect }) => {
+    const parent = createContainer()
+    const child = parent.createChild()
+    const provided = parent.provide(useLogger)
+
+    expect(child.resolve(useLogger)).toBe(provided)
+
+    const shadowed = child.provide(useLogger, () => ({ prefix: '[child]' }))
+    expect(child.resolve(useLogger)).toBe(shadowed)
+    expect(parent.resolve(useLogger)).toBe(provided)
+  })
+
+  it(`resolve from the parent or the root container`, async ({ expect }) => {
+    const root = createContainer()
+    const parent = root.createChild()
+    const child = parent.createChild()
+    const provided = root.provide(useLogger)
+    const shadowed = parent.provide(useLogger, () => ({ prefix: '[parent]' }))
+    child.provide(useLogger, () => ({ prefix: '[child]' }))
+
+    expect(child.resolve(useLogger, { from: 'parent' })).toBe(shadowed)
+    expect(child.resolve(useLogger, { from: 'root' })).toBe(provided)
+    expect(root.resolve(useLogger, { from: 'parent' })).toBeUndefined()
+  })
+
+  it(`dependencies are resolved from the container`, async ({ expect }) => {
+    const container = createContainer()
+    const useApi = defineUseDependencyInjection(({ logger }) => ({ logger }), { dependencies: { logger: useLogger } })
+    const api = container.provide(useApi)
+
+    expect(container.resolve(useLogger)).toBe(api.logger)
+  })
+
+  it(`dispose disposes the provided values of the container and its children`, async ({ expect }) => {
+    const dispose = vi.fn()
+    const useDisposable = defineUseDependencyInjection(() => ({}), { dispose })
+    const container = createContainer()
+    container.provide(useDisposable)
+    container.createChild().provide(useDisposable)
+
+    container.dispose()
+
+    expect(dispose).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe.concurrent(`runInInjectionContext correct behavior`, () => {
+  it(`injects what the app provides`, async ({ expect }) => {
+    const app = createApp({ render: () => null })
+    const provided = useLogger.install(app)
+
+    expect(runInInjectionContext(app, () => useLogger())).toBe(provided)
+  })
+
+  it(`throws without app.runWithContext`, async ({ expect }) => {
+    const app = { ...createApp({ render: () => null }), runWithContext: undefined }
+
+    // @ts-expect-error - app without runWithContext
+    expect(() => runInInjectionContext(app, () => useLogger())).toThrow(/requires Vue 3.3 or later/)
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, vi } from 'vitest'
+
+import { mountComponents } from '#/components'
+import defineUseDependencyInjection from '~'
+
+import type { Dependencies, UseDependencyInjection } from '~'
+
+interface Logger {
+  prefix: string
+}
+
+interface Api {
+  logger: Logger
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`defineUseDependencyInjection dependencies correct behavior`, () => {
+  it(`dependencies are injected from ancestors`, async ({ expect }) => {
+    const useLogger = defineUseDependencyInjection<Logger>(() => ({ prefix: '[logger]' }))
+    const useApi = defineUseDependencyInjection(({ logger }) => ({ logger }), { dependencies: { logger: useLogger } })
+
+    const [wrapper, ChildComponent] = mountComponents(() => useLogger('provide', () => ({ prefix: '[provided logger]' })), () => useApi('provide'))
+    const logger = wrapper.vm.provided
+    const api = wrapper.getComponent(ChildComponent).vm.injected
+
+    expect(api.logger).toBe(logger)
+  })
+
+  it(`dependencies provided by the same component are used`, async ({ expect }) => {
+    const useLogger = defineUseDependencyInjection<Logger>(() => ({ prefix: '[logger]' }))
+    const useApi = defineUseDependencyInjection(({ logger }) => ({ logger }), { dependencies: { logger: useLogger } })
+
+    const [wrapper] = mountComponents(() => [useLogger('provide'), useApi('provide')] as const)
+    const [logger, api] = wrapper.vm.provided
+
+    expect(api.logger).toBe(logger)
+  })
+
+  it(`dependencies not provided are initialized and provided alongside`, async ({ expect }) => {
+    const useLogger = defineUseDependencyInjection<Logger>(() => ({ prefix: '[logger]' }))
+    const useApi = defineUseDependencyInjection<Api, { logger: typeof useLogger }>(({ logger }) => ({ logger }), { dependencies: { logger: useLogger } })
+
+    const [wrapper, ChildComponent] = mountComponents(() => useApi('provide'), () => useLogger())
+    const api = wrapper.vm.provided
+    const logger = wrapper.getComponent(ChildComponent).vm.injected
+
+    expect(api.logger.prefix).toBe('[logger]')
+    expect(logger).toBe(api.logger)
+  })
+
+  it(`dependency without initializer falls back to its inject options`, async ({ expect }) => {
+    const useLogger = defineUseDependencyInjection<Logger>({ throwOnNoProvider: () => new Error('[useLogger] No provider found') })
+    const useApi = defineUseDependencyInjection(({ logger }) => ({ logger }), { dependencies: { logger: useLogger } })
+
+    expect(() => mountComponents(() => useApi('provide'))).toThrow(/\[useLogger\]/)
+  })
+
+  it(`provideLazy with an override initializer does not resolve the dependencies`, async ({ expect }) => {
+    const useLogger = defineUseDependencyInjection<Logger>({ throwOnNoProvider: true })
+    const useApi = defineUseDependencyInjection(({ logger }) => ({ logger }), { dependencies: { logger: useLogger } })
+
+    const [wrapper, ChildComponent] = mountComponents(() => useApi('provideLazy', () => ({ logger: { prefix: '[override]' } })), () => useApi())
+
+    expect(wrapper.getComponent(ChildComponent).vm.injected?.logger.prefix).toBe('[override]')
+  })
+
+  it(`dependency not defined by defineUseDependencyInjection`, async ({ expect }) => {
+    const useApi = defineUseDependencyInjection(() => ({}), {
+      dependencies: { logger: (() => undefined) as unknown as UseDependencyInjection<Logger> },
+    })
+
+    expect(() => mountComponents(() => useApi('provide'))).toThrow(/dependency `logger` is not defined/)
+  })
+
+  it(`circular dependencies throw with the whole chain`, async ({ expect }) => {
+    const dependencies: Dependencies = {}
+    const useA = defineUseDependencyInjection(() => ({}), { key: 'a', dependencies })
+    const useC = defineUseDependencyInjection(() => ({}), { key: 'c', dependencies: { a: useA } })
+    const useB = defineUseDependencyInjection(() => ({}), { dependencies: { c: useC } })
+    dependencies.b = useB
+
+    expect(() => mountComponents(() => useA('provide'))).toThrow('circular dependency detected: a -> b -> c -> a')
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`defineUseDependencyInjection string key collision`, () => {
+  it(`warns when two composables use the same string key`, async ({ expect }) => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    defineUseDependencyInjection<Logger, 'collision-test'>({ key: 'collision-test' })
+    expect(warn).not.toHaveBeenCalled()
+
+    defineUseDependencyInjection<Api, 'collision-test'>({ key: 'collision-test' })
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/key "collision-test" is already used/))
+    warn.mockRestore()
+  })
+})
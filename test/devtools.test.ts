@@ -0,0 +1,169 @@
+import { mount } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { defineComponent, h } from 'vue'
+
+import defineUseDependencyInjection from '~'
+import { devtoolsPlugin } from '~/devtools'
+
+import type { CustomInspectorNode, CustomInspectorState } from '@vue/devtools-api'
+
+const handlers = vi.hoisted(() => ({
+  getInspectorTree: [] as ((payload: any) => void)[],
+  getInspectorState: [] as ((payload: any) => void)[],
+  sendInspectorTree: vi.fn(),
+}))
+
+vi.mock('@vue/devtools-api', () => ({
+  setupDevtoolsPlugin: (_: unknown, setup: (api: unknown) => void) => setup({
+    addInspector: vi.fn(),
+    sendInspectorTree: handlers.sendInspectorTree,
+    sendInspectorState: vi.fn(),
+    on: {
+      getInspectorTree: (handler: (payload: any) => void) => handlers.getInspectorTree.push(handler),
+      getInspectorState: (handler: (payload: any) => void) => handlers.getInspectorState.push(handler),
+    },
+  }),
+}))
+
+function getInspectorTree(app: unknown) {
+  const payload = { app, inspectorId: 'vue-easy-di', filter: '', rootNodes: [] as CustomInspectorNode[] }
+  handlers.getInspectorTree.forEach(handler => handler(payload))
+  return payload.rootNodes
+}
+
+function getInspectorState(app: unknown, nodeId: string) {
+  const payload = { app, inspectorId: 'vue-easy-di', nodeId, state: {} as CustomInspectorState }
+  handlers.getInspectorState.forEach(handler => handler(payload))
+  return payload.state
+}
+
+function simplify(nodes: CustomInspectorNode[]): unknown[] {
+  return nodes.map(node => ({
+    label: node.label,
+    tags: node.tags?.map(tag => tag.label),
+    children: simplify(node.children ?? []),
+  }))
+}
+
+// @vitest-environment jsdom
+describe(`devtoolsPlugin correct behavior`, () => {
+  it(`shows providers, injectors and fallbacks`, async ({ expect }) => {
+    const useOuter = defineUseDependencyInjection(() => ({ msg: '[outer]' }), { key: 'outer' })
+    const useInner = defineUseDependencyInjection(() => ({ msg: '[inner]' }), { key: 'inner' })
+    const useDefault = defineUseDependencyInjection({ key: 'default', injectDefault: () => ({ msg: '[default]' }) })
+    const useStrict = defineUseDependencyInjection({ key: 'strict', throwOnNoProvider: () => new Error('[strict]') })
+
+    const Child = defineComponent({
+      name: 'Child',
+      setup() {
+        useOuter()
+        useInner()
+        useDefault()
+        try {
+          useStrict()
+        }
+        catch {}
+      },
+      render: () => null,
+    })
+    const Inner = defineComponent({
+      name: 'Inner',
+      setup: () => void useInner('provide'),
+      render: () => h(Child),
+    })
+    const Outer = defineComponent({
+      name: 'Outer',
+      setup: () => void useOuter('provide'),
+      render: () => h(Inner),
+    })
+    const wrapper = mount(Outer, { global: { plugins: [devtoolsPlugin] } })
+    const app = wrapper.vm.$.appContext.app
+
+    const tree = getInspectorTree(app)
+    expect(simplify(tree)).toEqual([
+      {
+        label: '<Outer>',
+        children: [
+          { label: 'outer', children: [{ label: '<Child>', tags: ['provider'], children: [] }] },
+          {
+            label: '<Inner>',
+            children: [{ label: 'inner', children: [{ label: '<Child>', tags: ['provider'], children: [] }] }],
+          },
+        ],
+      },
+      { label: 'default', tags: ['no provider'], children: [{ label: '<Child>', tags: ['injectDefault'], children: [] }] },
+      { label: 'strict', tags: ['no provider'], children: [{ label: '<Child>', tags: ['throwOnNoProvider'], children: [] }] },
+    ])
+    expect(getInspectorState(app, tree[0].children![0].id).provided).toContainEqual({ key: 'value', value: { msg: '[outer]' } })
+
+    wrapper.unmount()
+    expect(getInspectorTree(app)).toEqual([])
+  })
+
+  it(`groups the providers of a component and nests the providers below under the group`, async ({ expect }) => {
+    const useFirst = defineUseDependencyInjection(() => ({ msg: '[first]' }), { key: 'first' })
+    const useSecond = defineUseDependencyInjection(() => ({ msg: '[second]' }), { key: 'second' })
+    const useThird = defineUseDependencyInjection(() => ({ msg: '[third]' }), { key: 'third' })
+
+    const Child = defineComponent({
+      name: 'Child',
+      setup() {
+        useSecond()
+        useThird()
+      },
+      render: () => null,
+    })
+    const Inner = defineComponent({
+      name: 'Inner',
+      setup: () => void useThird('provide'),
+      render: () => h(Child),
+    })
+    const Outer = defineComponent({
+      name: 'Outer',
+      setup() {
+        useFirst('provide')
+        useSecond('provide')
+      },
+      render: () => h(Inner),
+    })
+    const wrapper = mount(Outer, { global: { plugins: [devtoolsPlugin] } })
+
+    expect(simplify(getInspectorTree(wrapper.vm.$.appContext.app))).toEqual([
+      {
+        label: '<Outer>',
+        children: [
+          { label: 'first', children: [] },
+          { label: 'second', children: [{ label: '<Child>', tags: ['provider'], children: [] }] },
+          {
+            label: '<Inner>',
+            children: [{ label: 'third', children: [{ label: '<Child>', tags: ['provider'], children: [] }] }],
+          },
+        ],
+      },
+    ])
+
+    wrapper.unmount()
+  })
+
+  it(`sends the inspector once after the provides and injects of a mount`, async ({ expect }) => {
+    vi.useFakeTimers()
+    const useDependency = defineUseDependencyInjection(() => ({ msg: '[dependency]' }), { key: 'debounced' })
+    const Child = defineComponent({
+      setup: () => void useDependency(),
+      render: () => null,
+    })
+    const wrapper = mount(defineComponent({
+      setup: () => void useDependency('provide'),
+      render: () => [h(Child), h(Child), h(Child)],
+    }), { global: { plugins: [devtoolsPlugin] } })
+    handlers.sendInspectorTree.mockClear()
+
+    vi.runAllTimers()
+    expect(handlers.sendInspectorTree).toHaveBeenCalledOnce()
+
+    wrapper.unmount()
+    vi.runAllTimers()
+    expect(handlers.sendInspectorTree).toHaveBeenCalledOnce()
+    vi.useRealTimers()
+  })
+})
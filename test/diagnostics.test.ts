@@ -0,0 +1,158 @@
+import { mount } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { defineComponent, getCurrentInstance, h } from 'vue'
+import * as VueDemi from 'vue-demi'
+
+import { mountComponents } from '#/components'
+import defineUseDependencyInjection, { defineUseMultiDependencyInjection } from '~'
+
+vi.mock('vue-demi', async (importOriginal) => {
+  const $VueDemi = await importOriginal()
+  return {
+    // @ts-expect-error - mock
+    ...$VueDemi,
+    // @ts-expect-error - mock
+    getCurrentInstance: vi.fn($VueDemi.getCurrentInstance),
+  }
+})
+
+interface Store {
+  count: number
+}
+
+function mountWithWarnings(setupParent: () => void, setupChild?: () => void) {
+  const warnHandler = vi.fn()
+  const [wrapper] = mountComponents(setupParent, setupChild, { config: { warnHandler } })
+  return { wrapper, warnHandler }
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection development warnings`, () => {
+  it(`warns when a component injects and then provides`, async ({ expect }) => {
+    const useStore = defineUseDependencyInjection<Store>(() => ({ count: 0 }), { name: 'Store' })
+    const { warnHandler } = mountWithWarnings(() => {
+      useStore()
+      useStore('provide')
+    }, () => useStore())
+
+    expect(warnHandler).toHaveBeenCalledOnce()
+    expect(warnHandler.mock.calls[0][0]).toMatch(/`Store` was injected before being provided by the same component/)
+  })
+
+  it(`warns when a component provides twice or injects its own value`, async ({ expect }) => {
+    const useStore = defineUseDependencyInjection<Store>(() => ({ count: 0 }), { name: 'Store' })
+    const { warnHandler } = mountWithWarnings(() => {
+      useStore('provide')
+      useStore('provide')
+      useStore()
+    }, () => useStore())
+
+    expect(warnHandler.mock.calls.map(([message]) => message)).toEqual([
+      expect.stringMatching(/`Store` was provided twice by the same component/),
+      expect.stringMatching(/`Store` was injected after being provided by the same component/),
+    ])
+  })
+
+  it(`warns when a provider expecting injects is unmounted without being injected`, async ({ expect }) => {
+    const useStore = defineUseDependencyInjection<Store>(() => ({ count: 0 }), { name: 'Store', expectInjected: true })
+    const unused = mountWithWarnings(() => useStore('provide'))
+    const used = mountWithWarnings(() => useStore('provide'), () => useStore())
+
+    unused.wrapper.unmount()
+    used.wrapper.unmount()
+
+    expect(unused.warnHandler).toHaveBeenCalledOnce()
+    expect(unused.warnHandler.mock.calls[0][0]).toMatch(/`Store` was provided by <Anonymous> but never injected by its subtree/)
+    expect(used.warnHandler).not.toHaveBeenCalled()
+  })
+
+  it(`does not warn when a provider is used by its own component`, async ({ expect }) => {
+    const useStore = defineUseDependencyInjection<Store>(() => ({ count: 0 }), { name: 'Store' })
+    const { wrapper, warnHandler } = mountWithWarnings(() => useStore('provide'))
+
+    wrapper.unmount()
+
+    expect(warnHandler).not.toHaveBeenCalled()
+  })
+
+  it(`does not warn when a provider component is unmounted without being injected`, async ({ expect }) => {
+    const useStore = defineUseDependencyInjection<Store>(() => ({ count: 0 }), { name: 'Store', expectInjected: true })
+    const warnHandler = vi.fn()
+    const wrapper = mount(defineComponent({
+      render: () => h(useStore.Provider),
+    }), { global: { config: { warnHandler } } })
+
+    wrapper.unmount()
+
+    expect(warnHandler).not.toHaveBeenCalled()
+  })
+
+  it(`does not warn for provideOrInject and lookups past the component`, async ({ expect }) => {
+    const useStore = defineUseDependencyInjection<Store>(() => ({ count: 0 }), { name: 'Store', expectInjected: true })
+    const { wrapper, warnHandler } = mountWithWarnings(() => {
+      useStore('provide')
+    }, () => {
+      useStore('provideOrInject')
+      useStore({ from: 'parent' })
+      useStore('provide')
+    })
+
+    wrapper.unmount()
+
+    // only the child provider is never injected
+    expect(warnHandler).toHaveBeenCalledOnce()
+    expect(warnHandler.mock.calls[0][0]).toMatch(/never injected/)
+  })
+
+  it(`does not warn when a component contributes to a multi composable and injects the contributions`, async ({ expect }) => {
+    const useMenuItems = defineUseMultiDependencyInjection<string>({ name: 'MenuItems' })
+    const { warnHandler } = mountWithWarnings(() => {
+      useMenuItems('provide', () => 'settings')
+      useMenuItems()
+    })
+
+    expect(warnHandler).not.toHaveBeenCalled()
+  })
+
+  it(`warns when called outside of setup`, async ({ expect }) => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const useStore = defineUseDependencyInjection<Store>({ name: 'OutsideStore' })
+
+    useStore()
+
+    expect(warn).toHaveBeenCalledWith(expect.stringMatching(/`OutsideStore` was called outside of setup/))
+    warn.mockRestore()
+  })
+})
+
+// @vitest-environment jsdom
+describe(`useDependencyInjection development warnings with Vue 2`, () => {
+  it(`only uses the public instance exposed by Vue 2.7`, async ({ expect }) => {
+    // like Vue 2.7, each call returns another object around the same public instance
+    vi.mocked(VueDemi.getCurrentInstance).mockImplementation(() => {
+      const proxy = getCurrentInstance()?.proxy
+      return proxy != null ? { proxy } as ReturnType<typeof VueDemi.getCurrentInstance> : null
+    })
+    const useStore = defineUseDependencyInjection<Store>(() => ({ count: 0 }), { name: 'Store' })
+    let injected: Store | undefined
+
+    try {
+      // the warn of Vue still reaches the warnHandler, without the app context
+      const { wrapper, warnHandler } = mountWithWarnings(() => {
+        useStore('provide')
+        useStore('provide')
+      }, () => {
+        injected = useStore()
+      })
+      wrapper.unmount()
+
+      expect(injected).toEqual({ count: 0 })
+      expect(warnHandler.mock.calls.map(([message]) => message)).toEqual([
+        expect.stringMatching(/`Store` was provided twice by the same component <Anonymous>/),
+      ])
+    }
+    finally {
+      vi.mocked(VueDemi.getCurrentInstance).mockImplementation(getCurrentInstance)
+    }
+  })
+})
@@ -0,0 +1,102 @@
+import { flushPromises } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { effectScope } from 'vue'
+
+import { mountComponents } from '#/components'
+import defineUseDependencyInjection, { defineUseAsyncDependencyInjection } from '~'
+
+class Connection {
+  closed = false
+  dispose() {
+    this.closed = true
+  }
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection dispose correct behavior`, () => {
+  it(`dispose function is called when the provider unmounts`, async ({ expect }) => {
+    const dispose = vi.fn()
+    const u = defineUseDependencyInjection(() => new Connection(), { dispose })
+    const [wrapper] = mountComponents(() => u('provide'))
+    const connection = wrapper.vm.provided
+
+    expect(dispose).not.toHaveBeenCalled()
+    wrapper.unmount()
+
+    expect(dispose).toHaveBeenCalledOnce()
+    expect(dispose).toHaveBeenCalledWith(connection)
+  })
+
+  it(`dispose true calls dispose method of the value`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(() => new Connection(), { dispose: true })
+    const [wrapper] = mountComponents(() => u('provide'))
+    const connection = wrapper.vm.provided
+    wrapper.unmount()
+
+    expect(connection.closed).toBe(true)
+  })
+
+  it(`dispose true prefers Symbol.dispose`, async ({ expect }) => {
+    const disposeSymbol = vi.fn()
+    const disposeMethod = vi.fn()
+    const u = defineUseDependencyInjection(() => ({ [Symbol.dispose]: disposeSymbol, dispose: disposeMethod }), { dispose: true })
+    mountComponents(() => u('provide'))[0].unmount()
+
+    expect(disposeSymbol).toHaveBeenCalledOnce()
+    expect(disposeMethod).not.toHaveBeenCalled()
+  })
+
+  it(`not disposed without dispose option`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(() => new Connection())
+    const [wrapper] = mountComponents(() => u('provide'))
+    const connection = wrapper.vm.provided
+    wrapper.unmount()
+
+    expect(connection.closed).toBe(false)
+  })
+
+  it(`disposed when a standalone effect scope is stopped`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(() => new Connection(), { dispose: true })
+    const scope = effectScope()
+    const [wrapper] = mountComponents(() => scope.run(() => u('provide'))!)
+    const connection = wrapper.vm.provided
+
+    scope.stop()
+    expect(connection.closed).toBe(true)
+    wrapper.unmount()
+  })
+
+  it(`lazy values are disposed only when initialized`, async ({ expect }) => {
+    const dispose = vi.fn()
+    const u = defineUseDependencyInjection(() => new Connection(), { dispose })
+    mountComponents(() => u('provideLazy'))[0].unmount()
+    expect(dispose).not.toHaveBeenCalled()
+
+    const [wrapper] = mountComponents(() => u('provideLazy'))
+    const connection = wrapper.vm.provided()
+    wrapper.unmount()
+    expect(dispose).toHaveBeenCalledWith(connection)
+  })
+
+  it(`dependencies initialized alongside are disposed`, async ({ expect }) => {
+    const useConnection = defineUseDependencyInjection(() => new Connection(), { dispose: true })
+    const useApi = defineUseDependencyInjection(({ connection }) => ({ connection }), { dependencies: { connection: useConnection } })
+    const [wrapper] = mountComponents(() => useApi('provide'))
+    const { connection } = wrapper.vm.provided
+    wrapper.unmount()
+
+    expect(connection.closed).toBe(true)
+  })
+
+  it(`async values are disposed once resolved`, async ({ expect }) => {
+    const u = defineUseAsyncDependencyInjection(async () => new Connection(), { dispose: true })
+    let connection: Promise<Connection> | undefined
+    const [wrapper] = mountComponents(() => {
+      connection = u('provide')
+    })
+    wrapper.unmount()
+    await flushPromises()
+
+    expect((await connection!).closed).toBe(true)
+  })
+})
@@ -0,0 +1,38 @@
+import { createServer, createViteRuntime } from 'vite'
+import { describe, it, vi } from 'vitest'
+
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+describe(`defineUseDependencyInjection hot option with a Vite dev server`, () => {
+  const counterSource = (version: number) => `
+import defineUseDependencyInjection from '${path.resolve(__dirname, '../src/index.ts')}'
+export const version = ${version}
+export const useCounter = defineUseDependencyInjection(() => ({ count: 0 }), { name: 'Counter', hot: import.meta.hot })
+import.meta.hot?.accept()
+`
+
+  it(`keeps the key when Vite reloads the module`, async ({ expect, onTestFinished }) => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'vue-easy-di-hmr-'))
+    const file = path.join(root, 'counter.ts')
+    await fs.writeFile(file, counterSource(1))
+    const server = await createServer({ root, configFile: false, logLevel: 'silent', appType: 'custom', server: { middlewareMode: true, watch: null } })
+    const runtime = await createViteRuntime(server, { hmr: { logger: false } })
+    onTestFinished(async () => {
+      await runtime.destroy()
+      await server.close()
+      await fs.rm(root, { recursive: true })
+    })
+    const first = await runtime.executeUrl('/counter.ts')
+
+    await fs.writeFile(file, counterSource(2))
+    await server.reloadModule(server.moduleGraph.getModuleById(file)!)
+    // the runtime evaluates the accepted update asynchronously
+    await vi.waitFor(async () => expect(await runtime.executeUrl('/counter.ts')).toHaveProperty('version', 2))
+    const updated = await runtime.executeUrl('/counter.ts')
+
+    expect(updated.useCounter).not.toBe(first.useCounter)
+    expect(updated.useCounter.key).toBe(first.useCounter.key)
+  }, 30_000)
+})
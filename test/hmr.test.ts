@@ -0,0 +1,91 @@
+import { mount } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { defineComponent, h, nextTick, ref } from 'vue'
+
+import defineUseDependencyInjection from '~'
+
+import type { HotContext } from '~'
+
+interface Counter {
+  count: number
+}
+
+/**
+ * Simulates Vite evaluating the module again on a hot update: `import.meta.hot` is created for each evaluation, `hot.data` is kept.
+ * The update through a real Vite dev server is covered in hmr-server.test.ts
+ */
+function createHotModule<R>(evaluate: (hot: HotContext) => R) {
+  const data: Record<string, unknown> = {}
+  return () => evaluate({ data })
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`defineUseDependencyInjection hot option correct behavior`, () => {
+  it(`keeps the key across hot updates`, async ({ expect }) => {
+    const evaluate = createHotModule(hot => [
+      defineUseDependencyInjection<Counter>(() => ({ count: 0 }), { name: 'Counter', hot }),
+      defineUseDependencyInjection<Counter>(() => ({ count: 0 }), { hot }),
+    ] as const)
+    const [useCounter, useAnonymous] = evaluate()
+    const [useUpdatedCounter, useUpdatedAnonymous] = evaluate()
+    let injected: (Counter | undefined)[] = []
+    const Child = defineComponent({
+      setup() {
+        injected = [useUpdatedCounter(), useUpdatedAnonymous()]
+        return () => null
+      },
+    })
+    let provided: Counter[] = []
+
+    mount(defineComponent({
+      setup() {
+        provided = [useCounter('provide'), useAnonymous('provide')]
+        return () => h(Child)
+      },
+    }))
+
+    expect(useUpdatedCounter.key).toBe(useCounter.key)
+    expect(injected).toEqual(provided)
+    expect(injected[1]).toBe(provided[1])
+  })
+
+  it(`migrates the values provided again after a hot update`, async ({ expect }) => {
+    const migrate = vi.fn((previous: Counter, value: Counter) => {
+      value.count = previous.count
+    })
+    const evaluate = createHotModule(hot => defineUseDependencyInjection<Counter>(() => ({ count: 0 }), { name: 'Counter', hot, migrate }))
+    const versions = [evaluate()]
+    const current = ref(0)
+    let provided: Counter | undefined
+    const Provider = defineComponent({
+      props: { composable: { type: Function, required: true } },
+      setup(props) {
+        provided = (props.composable as typeof versions[number])('provide')
+        return () => null
+      },
+    })
+    // the provider is mounted again with the new version, like a reloaded component
+    mount(() => h(Provider, { composable: versions[current.value], key: current.value }))
+    provided!.count = 3
+    const previous = provided
+
+    versions.push(evaluate())
+    current.value = 1
+    await nextTick()
+
+    expect(provided).not.toBe(previous)
+    expect(migrate).toHaveBeenCalledOnce()
+    expect(migrate).toHaveBeenCalledWith(previous, provided)
+    expect(provided?.count).toBe(3)
+  })
+
+  it(`does not warn about the string key of the previous version`, async ({ expect }) => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const evaluate = createHotModule(hot => defineUseDependencyInjection<Counter, 'hot-counter'>({ key: 'hot-counter', hot }))
+    evaluate()
+    evaluate()
+
+    expect(warn.mock.calls.map(([message]) => message)).not.toContainEqual(expect.stringMatching(/hot-counter/))
+    warn.mockRestore()
+  })
+})
@@ -1,4 +1,5 @@
 import { expectTypeOf } from 'vitest'
+import { defineComponent } from 'vue'
 
 import {
   initializer,
@@ -7,10 +8,14 @@ import {
   overrideOptionsWithInjectDefault,
   overrideOptionsWithThrowOnNoProvider,
 } from '#/index.test'
-import defineUseDependencyInjection from '~'
+import { API_URL, HttpClient, UserService, useHttpClient } from '#/injectable.test'
+import { configSchema, isConfig } from '#/validate.test'
+import defineUseDependencyInjection, { defineInjectable, defineUseAsyncDependencyInjection, defineUseLoadedDependencyInjection, defineUseMultiDependencyInjection } from '~'
 
 import type { TestType } from '#/index.test'
-import type { UseDependencyInjection, UseInitiatedDependencyInjection } from '~'
+import type { Config } from '#/validate.test'
+import type { ComputedRef, InjectionKey, Ref } from 'vue'
+import type { AsyncDependencyHandle, UseDependencyInjection, UseInitiatedDependencyInjection } from '~'
 
 describe('defineUseDependencyInjection return correct type with different arguments', () => {
   test('With initializer', () => {
@@ -26,10 +31,30 @@ describe('defineUseDependencyInjection return correct type with different argume
   })
 })
 
+describe('defineUseDependencyInjection infers dependencies passed to initializer', () => {
+  test('With dependencies', () => {
+    const useTest = defineUseDependencyInjection(initializer)
+    const useStrictTest = defineUseDependencyInjection(initializer, optionsWithThrowOnNoProvider)
+    defineUseDependencyInjection((dependencies) => {
+      expectTypeOf(dependencies).toEqualTypeOf<{ test: TestType, strictTest: TestType }>()
+      return dependencies.test
+    }, { dependencies: { test: useTest, strictTest: useStrictTest } })
+  })
+})
+
 describe('useDependencyInjection return correct type with different options', () => {
   test('No options - inject mode maybe return undefined', () => {
     const u = defineUseDependencyInjection(initializer)
     expectTypeOf(u('provide')).toEqualTypeOf<TestType>()
+    expectTypeOf(u('provideLazy')).toEqualTypeOf<() => TestType>()
+    expectTypeOf(u('provideReactive')).toEqualTypeOf<Ref<TestType>>()
+    expectTypeOf(u('provideReactive', initializer, { scope: 'layout' })).toEqualTypeOf<Ref<TestType>>()
+    expectTypeOf(u('extend', (parent) => {
+      expectTypeOf(parent).toEqualTypeOf<TestType | undefined>()
+      return initializer()
+    })).toEqualTypeOf<TestType>()
+
+    expectTypeOf(u('provideOrInject')).toEqualTypeOf<{ value: TestType, owner: boolean }>()
 
     expectTypeOf(u()).toEqualTypeOf<TestType | undefined>()
     expectTypeOf(u('inject')).toEqualTypeOf<TestType | undefined>()
@@ -39,11 +64,23 @@ describe('useDependencyInjection return correct type with different options', ()
 
     expectTypeOf(u(overrideOptionsWithThrowOnNoProvider)).toEqualTypeOf<TestType>()
     expectTypeOf(u('inject', overrideOptionsWithThrowOnNoProvider)).toEqualTypeOf<TestType>()
+
+    expectTypeOf(u('provide', initializer, { scope: 'layout' })).toEqualTypeOf<TestType>()
+    expectTypeOf(u('provide', undefined, { scope: 'layout' })).toEqualTypeOf<TestType>()
+    expectTypeOf(u({ from: 'root' })).toEqualTypeOf<TestType | undefined>()
+    expectTypeOf(u('inject', { scope: 'layout' })).toEqualTypeOf<TestType | undefined>()
+    expectTypeOf(u({ from: 'parent', ...overrideOptionsWithThrowOnNoProvider })).toEqualTypeOf<TestType>()
+    expectTypeOf(u({ ...overrideOptionsWithInjectDefault, defaultScope: 'app' })).toEqualTypeOf<TestType>()
+    expectTypeOf(defineUseDependencyInjection({ ...optionsWithInjectDefault, defaultScope: 'module' })()).toEqualTypeOf<TestType>()
   })
 
   test('With injects default', () => {
     const u = defineUseDependencyInjection(initializer, optionsWithInjectDefault)
     expectTypeOf(u('provide')).toEqualTypeOf<TestType>()
+    expectTypeOf(u('extend', (parent) => {
+      expectTypeOf(parent).toEqualTypeOf<TestType>()
+      return parent
+    })).toEqualTypeOf<TestType>()
 
     expectTypeOf(u('inject')).toEqualTypeOf<TestType>()
     expectTypeOf(u()).toEqualTypeOf<TestType>()
@@ -69,3 +106,146 @@ describe('useDependencyInjection return correct type with different options', ()
     expectTypeOf(u('inject', overrideOptionsWithThrowOnNoProvider)).toEqualTypeOf<TestType>()
   })
 })
+
+describe('useAsyncDependencyInjection return correct type with different options', () => {
+  test('No options - inject mode maybe resolve undefined', () => {
+    const u = defineUseAsyncDependencyInjection(async () => initializer())
+    expectTypeOf(u('provide')).toEqualTypeOf<Promise<TestType>>()
+
+    expectTypeOf(u()).toEqualTypeOf<Promise<TestType | undefined>>()
+    expectTypeOf(u('handle')).toEqualTypeOf<AsyncDependencyHandle<TestType> | undefined>()
+
+    expectTypeOf(u(overrideOptionsWithInjectDefault)).toEqualTypeOf<Promise<TestType>>()
+    expectTypeOf(u('handle', overrideOptionsWithThrowOnNoProvider)).toEqualTypeOf<AsyncDependencyHandle<TestType>>()
+  })
+
+  test('With injects default', () => {
+    const u = defineUseAsyncDependencyInjection(async () => initializer(), optionsWithInjectDefault)
+    expectTypeOf(u('provide')).toEqualTypeOf<Promise<TestType>>()
+
+    expectTypeOf(u()).toEqualTypeOf<Promise<TestType>>()
+    expectTypeOf(u('handle')).toEqualTypeOf<AsyncDependencyHandle<TestType>>()
+  })
+
+  test('provideLazy returns a getter of the promise', () => {
+    const u = defineUseAsyncDependencyInjection(async () => initializer())
+    expectTypeOf(u('provideLazy')).toEqualTypeOf<() => Promise<TestType>>()
+  })
+})
+
+describe('useLoadedDependencyInjection return correct type', () => {
+  test('infers the type from the loaded module', () => {
+    const u = defineUseLoadedDependencyInjection(async () => ({ default: () => initializer() }))
+    expectTypeOf(u('provide')).toEqualTypeOf<Promise<TestType>>()
+    expectTypeOf(u()).toEqualTypeOf<Promise<TestType | undefined>>()
+    expectTypeOf(u.prefetch()).toEqualTypeOf<Promise<void>>()
+  })
+
+  test('With injects default', () => {
+    const u = defineUseLoadedDependencyInjection(async () => () => initializer(), optionsWithInjectDefault)
+    expectTypeOf(u()).toEqualTypeOf<Promise<TestType>>()
+    expectTypeOf(u('handle')).toEqualTypeOf<AsyncDependencyHandle<TestType>>()
+  })
+})
+
+describe('useMultiDependencyInjection return correct type', () => {
+  test('provide returns the contribution, inject returns all of them', () => {
+    const u = defineUseMultiDependencyInjection(() => initializer())
+    expectTypeOf(u('provide')).toEqualTypeOf<TestType>()
+    expectTypeOf(u('provide', () => initializer())).toEqualTypeOf<TestType>()
+
+    expectTypeOf(u()).toEqualTypeOf<ComputedRef<readonly TestType[]>>()
+    expectTypeOf(u('inject')).toEqualTypeOf<ComputedRef<readonly TestType[]>>()
+  })
+
+  test('Not initiated - provide needs an initializer', () => {
+    const u = defineUseMultiDependencyInjection<TestType>()
+    // @ts-expect-error initializer is required
+    u('provide')
+  })
+})
+
+describe('defineUseDependencyInjection infers type from validate', () => {
+  test('Standard Schema', () => {
+    const u = defineUseDependencyInjection({ key: 'config', validate: configSchema })
+    expectTypeOf(u()).toEqualTypeOf<Config | undefined>()
+  })
+
+  test('Type guard', () => {
+    const u = defineUseDependencyInjection({ key: 'config', validate: isConfig, throwOnNoProvider: true })
+    expectTypeOf(u()).toEqualTypeOf<Config>()
+  })
+})
+
+declare module '~' {
+  interface DependencyRegistry {
+    'registry-test': TestType
+  }
+}
+
+describe('defineUseDependencyInjection infers and enforces registered string keys', () => {
+  test('Registered key infers the type', () => {
+    expectTypeOf(defineUseDependencyInjection({ key: 'registry-test' })()).toEqualTypeOf<TestType | undefined>()
+    expectTypeOf(defineUseDependencyInjection({ key: 'registry-test', throwOnNoProvider: true })()).toEqualTypeOf<TestType>()
+    expectTypeOf(defineUseDependencyInjection(initializer, { key: 'registry-test' })('provide')).toEqualTypeOf<TestType>()
+    expectTypeOf(defineUseDependencyInjection(initializer, { key: 'registry-test', injectDefault: initializer })()).toEqualTypeOf<TestType>()
+  })
+
+  test('Registered key rejects another type', () => {
+    // @ts-expect-error - registered with TestType
+    defineUseDependencyInjection(() => 1, { key: 'registry-test' })
+    // @ts-expect-error - registered with TestType
+    defineUseDependencyInjection({ key: 'registry-test', injectDefault: 1 })
+  })
+
+  test('Registered key rejects another explicit type', () => {
+    // @ts-expect-error - registered with TestType
+    defineUseDependencyInjection<number>({ key: 'registry-test' })
+    // @ts-expect-error - registered with TestType
+    defineUseDependencyInjection<number>(() => 1, { key: 'registry-test' })
+    // @ts-expect-error - registered with TestType
+    defineUseDependencyInjection<number>({ key: 'registry-test', injectDefault: 1 })
+
+    expectTypeOf(defineUseDependencyInjection<TestType>({ key: 'registry-test' })()).toEqualTypeOf<TestType | undefined>()
+    expectTypeOf(defineUseDependencyInjection<TestType>(initializer, { key: 'registry-test', throwOnNoProvider: true })()).toEqualTypeOf<TestType>()
+  })
+
+  test('Unregistered key is not checked', () => {
+    expectTypeOf(defineUseDependencyInjection(() => 1, { key: 'unregistered' })()).toEqualTypeOf<number | undefined>()
+    expectTypeOf(defineUseDependencyInjection<number, 'unregistered'>({ key: 'unregistered' })()).toEqualTypeOf<number | undefined>()
+    // @ts-expect-error - with an explicit type argument, an unregistered key is passed as the second one
+    defineUseDependencyInjection<number>({ key: 'unregistered' })
+  })
+})
+
+describe('defineInjectable checks the constructor against its dependencies', () => {
+  test('Instance type and constructor dependencies', () => {
+    const u = defineInjectable(UserService, { dependencies: [useHttpClient, API_URL] })
+    expectTypeOf(u).toEqualTypeOf<UseInitiatedDependencyInjection<UserService | undefined>>()
+    expectTypeOf(defineInjectable(UserService, { dependencies: [useHttpClient, API_URL], throwOnNoProvider: true })())
+      .toEqualTypeOf<UserService>()
+    expectTypeOf(defineInjectable(HttpClient, { dependencies: [API_URL], lifetime: 'transient' })('provide')).toEqualTypeOf<HttpClient>()
+  })
+
+  test('Dependencies not matching the constructor', () => {
+    // @ts-expect-error - the constructor expects a HttpClient first
+    defineInjectable(UserService, { dependencies: [API_URL, useHttpClient] })
+    // @ts-expect-error - missing dependencies
+    defineInjectable(UserService)
+  })
+})
+
+describe('useDependencyInjection mixin types this', () => {
+  test('Computed property of the mixin', () => {
+    const u = defineUseDependencyInjection(initializer)
+    expectTypeOf(u.key).toEqualTypeOf<InjectionKey<TestType | undefined> | string>()
+    defineComponent({
+      mixins: [u.mixin('injected'), u.mixin('strict', { throwOnNoProvider: true }), u.mixin('provided', 'provide')],
+      mounted() {
+        expectTypeOf(this.injected).toEqualTypeOf<TestType | undefined>()
+        expectTypeOf(this.strict).toEqualTypeOf<TestType>()
+        expectTypeOf(this.provided).toEqualTypeOf<TestType>()
+      },
+    })
+  })
+})
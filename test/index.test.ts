@@ -1,11 +1,11 @@
 import { mount } from '@vue/test-utils'
 import { beforeEach, describe, it, vi } from 'vitest'
-import { defineComponent } from 'vue'
+import { createApp, defineComponent, h } from 'vue'
 import * as VueDemi from 'vue-demi'
 
-import defineUseDependencyInjection from '~'
+import defineUseDependencyInjection, { DependencyNotInitializedError, DependencyNotProvidedError, runInInjectionContext } from '~'
 
-import type { WithInjectDefault, WithThrowOnNoProvider } from '~'
+import type { ProvideOrInjectResult, WithInjectDefault, WithThrowOnNoProvider } from '~'
 
 vi.mock('vue-demi', async (importOriginal) => {
   const $VueDemi = await importOriginal()
@@ -14,6 +14,8 @@ vi.mock('vue-demi', async (importOriginal) => {
     ...$VueDemi,
     // @ts-expect-error - mock
     inject: vi.fn($VueDemi.inject),
+    // @ts-expect-error - mock
+    getCurrentInstance: vi.fn($VueDemi.getCurrentInstance),
   }
 })
 
@@ -93,7 +95,7 @@ describe.concurrent(`defineUseDependencyInjection initializer correct behavior`,
     const wrapper = mount(ParentComponent)
     const injected = wrapper.getComponent(ChildComponent).vm.injected
 
-    expect(injected?.msg).toMatch(/\[initializer]/)
+    expect(injected?.msg).toMatch(/\[initializer\]/)
   })
   it(`initializer not a function`, async ({ expect }) => {
     expect(() => {
@@ -112,7 +114,7 @@ describe.concurrent(`defineUseDependencyInjection options correct behavior`, ()
     const wrapper = mount(ParentComponent)
     const injected = wrapper.getComponent(ChildComponent).vm.injected
 
-    expect(injected?.msg).toMatch(/\[initializer]/)
+    expect(injected?.msg).toMatch(/\[initializer\]/)
   })
 
   it(`options with key`, async ({ expect }) => {
@@ -132,14 +134,14 @@ describe.concurrent(`defineUseDependencyInjection options correct behavior`, ()
     const wrapper = mount(ParentComponent)
     const injected = wrapper.getComponent(ChildComponent).vm.injected
 
-    expect(injected?.msg).toMatch(/\[optionsWithInjectDefault]/)
+    expect(injected?.msg).toMatch(/\[optionsWithInjectDefault\]/)
   })
 
   it(`options with throwOnNoProvider`, async ({ expect }) => {
     const u = defineUseDependencyInjection<TestType>(optionsWithThrowOnNoProvider)
     const [ParentComponent, _] = createComponents(() => undefined, () => u())
 
-    expect(() => mount(ParentComponent)).toThrow(/\[optionsWithThrowOnNoProvider]/)
+    expect(() => mount(ParentComponent)).toThrow(/\[optionsWithThrowOnNoProvider\]/)
   })
 })
 
@@ -152,7 +154,7 @@ describe.concurrent(`useDependencyInjection provide mode correct behavior`, () =
     const wrapper = mount(ParentComponent)
     const injected = wrapper.getComponent(ChildComponent).vm.injected
 
-    expect(injected?.msg).toMatch(/\[overrideInitializer]/)
+    expect(injected?.msg).toMatch(/\[overrideInitializer\]/)
   })
   it(`override initializer not a function`, async ({ expect }) => {
     const u = defineUseDependencyInjection<TestType>(initializer)
@@ -163,6 +165,196 @@ describe.concurrent(`useDependencyInjection provide mode correct behavior`, () =
   })
 })
 
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection provideLazy mode correct behavior`, () => {
+  it(`initialized on first inject`, async ({ expect }) => {
+    const lazyInitializer = vi.fn(initializer)
+    const u = defineUseDependencyInjection<TestType>(lazyInitializer)
+    const [ParentComponent, ChildComponent] = createComponents(() => {
+      u('provideLazy')
+      expect(lazyInitializer).not.toHaveBeenCalled()
+      return undefined
+    }, () => u())
+
+    const wrapper = mount(ParentComponent)
+    const injected = wrapper.getComponent(ChildComponent).vm.injected
+
+    expect(injected?.msg).toMatch(/\[initializer\]/)
+    expect(lazyInitializer).toHaveBeenCalledOnce()
+  })
+
+  it(`not initialized without inject`, async ({ expect }) => {
+    const lazyInitializer = vi.fn(initializer)
+    const u = defineUseDependencyInjection<TestType>(lazyInitializer)
+    const [ParentComponent, _] = createComponents(() => {
+      u('provideLazy')
+      return undefined
+    }, () => undefined)
+
+    mount(ParentComponent)
+
+    expect(lazyInitializer).not.toHaveBeenCalled()
+  })
+
+  it(`cached for the subtree of the provider`, async ({ expect }) => {
+    const lazyInitializer = vi.fn(initializer)
+    const u = defineUseDependencyInjection<TestType>(lazyInitializer)
+    let getter!: () => TestType
+    const [ParentComponent, ChildComponent] = createComponents(() => {
+      getter = u('provideLazy')
+      return undefined
+    }, () => u())
+
+    const wrapper = mount(ParentComponent)
+    const injected = wrapper.getComponent(ChildComponent).vm.injected
+
+    expect(getter()).toBe(injected)
+    expect(lazyInitializer).toHaveBeenCalledOnce()
+  })
+
+  it(`injected as a handle with the inject option`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    const OptionsComponent = defineComponent({
+      inject: { injected: { from: u.key } },
+      render: () => null,
+    })
+    // a descendant providing the same key provides its own value to its subtree
+    const OverridingComponent = defineComponent({
+      provide: { [u.key]: { msg: '[overriding]' } },
+      render: () => h(OptionsComponent),
+    })
+    const ParentComponent = defineComponent({
+      setup() {
+        u('provideLazy')
+        return () => [h(OptionsComponent), h(OverridingComponent)]
+      },
+    })
+
+    const wrapper = mount(ParentComponent)
+    const [handle, overridden] = wrapper.findAllComponents(OptionsComponent).map(child => (child.vm as unknown as { injected: unknown }).injected)
+
+    expect((handle as { get: () => TestType }).get().msg).toMatch(/\[initializer\]/)
+    expect((overridden as TestType).msg).toBe('[overriding]')
+  })
+
+  it(`override initializer`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    const [ParentComponent, ChildComponent] = createComponents(() => {
+      u('provideLazy', overrideInitializer)
+      return undefined
+    }, () => u())
+
+    const wrapper = mount(ParentComponent)
+    const injected = wrapper.getComponent(ChildComponent).vm.injected
+
+    expect(injected?.msg).toMatch(/\[overrideInitializer\]/)
+  })
+
+  it(`not initialized`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>()
+    const [ParentComponent, _] = createComponents(() => {
+      // @ts-expect-error - not initialized
+      u('provideLazy')
+      return undefined
+    }, () => u())
+
+    expect(() => mount(ParentComponent)).toThrow(/is not initialized/)
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection extend mode correct behavior`, () => {
+  it(`extender receives the value of the nearest ancestor`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>()
+    const [ParentComponent, ChildComponent] = createComponents(
+      () => u('extend', parent => ({ msg: `${parent?.msg} [extended]` })),
+      () => u(),
+    )
+
+    const wrapper = mount(ParentComponent, { global: { plugins: [[u, initializer]] } })
+    const injected = wrapper.getComponent(ChildComponent).vm.injected
+
+    expect(injected?.msg).toBe('[initializer] [extended]')
+  })
+
+  it(`extender receives the default without provider`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(optionsWithInjectDefault)
+    const [ParentComponent, ChildComponent] = createComponents(
+      () => u('extend', parent => ({ msg: `${parent.msg} [extended]` })),
+      () => u(),
+    )
+
+    const wrapper = mount(ParentComponent)
+    const { provided } = wrapper.vm
+
+    expect(provided?.msg).toBe('[optionsWithInjectDefault] with inject default [extended]')
+    expect(wrapper.getComponent(ChildComponent).vm.injected).toBe(provided)
+  })
+
+  it(`extender is required`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    const [ParentComponent, _] = createComponents(() => {
+      // @ts-expect-error - extender is required
+      u('extend')
+      return undefined
+    }, () => u())
+
+    expect(() => mount(ParentComponent)).toThrow(/must be a function when mode is 'extend'/)
+  })
+
+  it(`extender returning nullish is not initialized`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(optionsWithInjectDefault)
+    const [ParentComponent, _] = createComponents(() => u('extend', () => undefined as unknown as TestType), () => u())
+
+    expect(() => mount(ParentComponent)).toThrow(/is not initialized/)
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection provideOrInject mode correct behavior`, () => {
+  it(`reuses the value of an ancestor`, async ({ expect }) => {
+    const providedInitializer = vi.fn(initializer)
+    const u = defineUseDependencyInjection<TestType>(providedInitializer)
+    let result!: ProvideOrInjectResult<TestType>
+    const [ParentComponent, _] = createComponents(() => {
+      result = u('provideOrInject')
+      return result.value
+    }, () => u())
+
+    mount(ParentComponent, { global: { plugins: [u] } })
+
+    expect(result.owner).toBe(false)
+    expect(result.value.msg).toMatch(/\[initializer\]/)
+    expect(providedInitializer).toHaveBeenCalledOnce()
+  })
+
+  it(`provides a new value without ancestor`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(optionsWithInjectDefault)
+    let result!: ProvideOrInjectResult<TestType>
+    const [ParentComponent, ChildComponent] = createComponents(() => {
+      result = u('provideOrInject', overrideInitializer)
+      return result.value
+    }, () => u())
+
+    const wrapper = mount(ParentComponent)
+    const injected = wrapper.getComponent(ChildComponent).vm.injected
+
+    expect(result.owner).toBe(true)
+    expect(result.value.msg).toMatch(/\[overrideInitializer\]/)
+    expect(injected).toBe(result.value)
+  })
+
+  it(`not initialized`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>()
+    const [ParentComponent, _] = createComponents(() => {
+      // @ts-expect-error - not initialized
+      return u('provideOrInject').value
+    }, () => u())
+
+    expect(() => mount(ParentComponent)).toThrow(/is not initialized/)
+  })
+})
+
 // @vitest-environment jsdom
 describe.concurrent(`useDependencyInjection inject mode correct behavior`, () => {
   it(`default mode is inject`, async ({ expect }) => {
@@ -172,7 +364,7 @@ describe.concurrent(`useDependencyInjection inject mode correct behavior`, () =>
     const wrapper = mount(ParentComponent)
     const injected = wrapper.getComponent(ChildComponent).vm.injected
 
-    expect(injected?.msg).toMatch(/\[initializer]/)
+    expect(injected?.msg).toMatch(/\[initializer\]/)
   })
 
   it(`override options with injectDefault`, async ({ expect }) => {
@@ -182,13 +374,267 @@ describe.concurrent(`useDependencyInjection inject mode correct behavior`, () =>
     const wrapper = mount(ParentComponent)
     const injected = wrapper.getComponent(ChildComponent).vm.injected
 
-    expect(injected?.msg).toMatch(/\[overrideOptionsWithInjectDefault]/)
+    expect(injected?.msg).toMatch(/\[overrideOptionsWithInjectDefault\]/)
   })
 
   it(`override options with throwOnNoProvider`, async ({ expect }) => {
     const u = defineUseDependencyInjection<TestType>(initializer, optionsWithInjectDefault)
     const [ParentComponent, _] = createComponents(() => undefined, () => u(overrideOptionsWithThrowOnNoProvider))
 
-    expect(() => mount(ParentComponent)).toThrow(/\[overrideOptionsWithThrowOnNoProvider]/)
+    expect(() => mount(ParentComponent)).toThrow(/\[overrideOptionsWithThrowOnNoProvider\]/)
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection defaultScope correct behavior`, () => {
+  function mountInjectors(inject: () => TestType | undefined) {
+    const injected: (TestType | undefined)[] = []
+    const [ParentComponent, _] = createComponents(() => {
+      injected.push(inject())
+      return undefined
+    }, () => {
+      injected.push(inject())
+      return undefined
+    })
+    mount(ParentComponent)
+    mount(ParentComponent)
+    return injected
+  }
+
+  it(`per-inject calls the factory for each inject`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(optionsWithInjectDefault)
+    const injected = mountInjectors(() => u())
+
+    expect(new Set(injected).size).toBe(4)
+  })
+
+  it(`app shares the default in an app`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>({ ...optionsWithInjectDefault, defaultScope: 'app' })
+    const [first, second, third, fourth] = mountInjectors(() => u())
+
+    expect(first).toBe(second)
+    expect(third).toBe(fourth)
+    expect(first).not.toBe(third)
+  })
+
+  it(`module shares the default in every app`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>({ ...optionsWithInjectDefault, defaultScope: 'module' })
+    const injected = mountInjectors(() => u())
+
+    expect(new Set(injected).size).toBe(1)
+    expect(injected[0]?.msg).toMatch(/\[optionsWithInjectDefault\]/)
+  })
+
+  it(`override options with defaultScope`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(optionsWithInjectDefault)
+    const injected = mountInjectors(() => u({ ...overrideOptionsWithInjectDefault, defaultScope: 'module' }))
+
+    expect(new Set(injected).size).toBe(1)
+    expect(injected[0]?.msg).toMatch(/\[overrideOptionsWithInjectDefault\]/)
+  })
+
+  it(`app shares the default of inline factories`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(optionsWithInjectDefault)
+    const [first, second, third, fourth] = mountInjectors(() => u({ injectDefault: () => ({ msg: '[inline]' }), defaultScope: 'app' }))
+
+    expect(first).toBe(second)
+    expect(third).toBe(fourth)
+    expect(first).not.toBe(third)
+  })
+
+  it(`app shares the default in runInInjectionContext of the same app only`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>({ ...optionsWithInjectDefault, defaultScope: 'app' })
+    const [firstApp, secondApp] = [createApp({ render: () => null }), createApp({ render: () => null })]
+
+    expect(runInInjectionContext(firstApp, () => u())).toBe(runInInjectionContext(firstApp, () => u()))
+    expect(runInInjectionContext(firstApp, () => u())).not.toBe(runInInjectionContext(secondApp, () => u()))
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection inject from and scope correct behavior`, () => {
+  function createNestedComponents(setupOuter: () => void, setupMiddle: () => void, setupInner: () => void) {
+    const InnerComponent = defineComponent({
+      setup() {
+        setupInner()
+        return () => null
+      },
+    })
+    const MiddleComponent = defineComponent({
+      setup() {
+        setupMiddle()
+        return () => h(InnerComponent)
+      },
+    })
+    return defineComponent({
+      setup() {
+        setupOuter()
+        return () => h(MiddleComponent)
+      },
+    })
+  }
+
+  it(`from parent never injects the own value of the component`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    let fromParent: TestType | undefined
+    const [ParentComponent, _] = createComponents(() => u('provide'), () => {
+      const own = u('provide', overrideInitializer)
+      fromParent = u({ from: 'parent' })
+      return own
+    })
+
+    const wrapper = mount(ParentComponent)
+
+    expect(fromParent).toBe(wrapper.vm.provided)
+  })
+
+  it(`from root injects the outermost value, or the app level one`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    const appLevel = { msg: '[app]' }
+    const outer: TestType[] = []
+    const injected: (TestType | undefined)[] = []
+    const OuterComponent = createNestedComponents(() => {
+      outer.push(u('provide'))
+    }, () => u('provide', overrideInitializer), () => {
+      injected.push(u('inject', { from: 'root' }))
+    })
+
+    mount(OuterComponent)
+    mount(OuterComponent, { global: { plugins: [[u, () => appLevel]] } })
+
+    expect(injected[0]).toBe(outer[0])
+    expect(injected[1]).toBe(appLevel)
+  })
+
+  it(`scope injects the value of the tagged provider`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    let layout: TestType | undefined
+    let panel: TestType | undefined
+    let scoped: TestType | undefined
+    let nearest: TestType | undefined
+    const OuterComponent = createNestedComponents(() => {
+      layout = u('provide', undefined, { scope: 'layout' })
+    }, () => {
+      panel = u('provide', overrideInitializer)
+    }, () => {
+      scoped = u({ scope: 'layout' })
+      nearest = u()
+    })
+
+    mount(OuterComponent)
+
+    expect(scoped).toBe(layout)
+    expect(nearest).toBe(panel)
+  })
+
+  it(`scope without tagged provider uses the inject default`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer, optionsWithInjectDefault)
+    const [ParentComponent, ChildComponent] = createComponents(() => u('provide'), () => u({ scope: 'layout' }))
+
+    const wrapper = mount(ParentComponent)
+
+    expect(wrapper.getComponent(ChildComponent).vm.injected?.msg).toMatch(/\[optionsWithInjectDefault\]/)
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection app level provide correct behavior`, () => {
+  it(`install as plugin`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    const [_, ChildComponent] = createComponents(() => undefined, () => u())
+
+    const wrapper = mount(ChildComponent, { global: { plugins: [u] } })
+
+    expect(wrapper.vm.injected?.msg).toMatch(/\[initializer\]/)
+  })
+
+  it(`install as plugin with override initializer`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    const [_, ChildComponent] = createComponents(() => undefined, () => u())
+
+    const wrapper = mount(ChildComponent, { global: { plugins: [[u, overrideInitializer]] } })
+
+    expect(wrapper.vm.injected?.msg).toMatch(/\[overrideInitializer\]/)
+  })
+
+  it(`install returns the same instance seen by the app`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer)
+    const app = createApp({ render: () => null })
+
+    const provided = u.install(app)
+
+    expect(app.runWithContext(() => u())).toBe(provided)
+  })
+
+  it(`install not initialized`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>()
+    const app = createApp({ render: () => null })
+
+    // @ts-expect-error - not initialized
+    expect(() => u.install(app)).toThrow(/is not initialized/)
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`defineUseDependencyInjection name correct behavior`, () => {
+  it(`name is the description of the generated key`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>(initializer, { name: 'Test' })
+    const [ParentComponent, _] = createComponents(() => u('provide'), () => u())
+
+    mount(ParentComponent)
+
+    expect(vi.mocked(VueDemi.inject).mock.lastCall?.[0]).toHaveProperty('description', 'Test')
+  })
+
+  it(`not initialized throws DependencyNotInitializedError`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>({ name: 'Test' })
+    // @ts-expect-error - not initialized
+    const [ParentComponent, _] = createComponents(() => u('provide'), () => u())
+
+    const error = (() => {
+      try {
+        mount(ParentComponent)
+      }
+      catch (e) {
+        return e
+      }
+    })()
+
+    expect(error).toBeInstanceOf(DependencyNotInitializedError)
+    expect(error).toMatchObject({ dependencyName: 'Test', componentHierarchy: ['<Anonymous>', '<VTU_ROOT>'] })
+    expect((error as Error).message).toMatch(/value `Test` is not initialized\n {2}at <Anonymous>\n {2}at <VTU_ROOT>/)
+  })
+
+  it(`throwOnNoProvider true throws DependencyNotProvidedError`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<TestType>({ name: 'Test', throwOnNoProvider: true })
+    const [ParentComponent, _] = createComponents(() => undefined, () => u())
+
+    const error = (() => {
+      try {
+        mount(ParentComponent)
+      }
+      catch (e) {
+        return e
+      }
+    })()
+
+    expect(error).toBeInstanceOf(DependencyNotProvidedError)
+    expect(error).toMatchObject({ dependencyName: 'Test', componentHierarchy: ['<ChildComponent>', '<Anonymous>', '<VTU_ROOT>'] })
+  })
+
+  it(`no component hierarchy with the public instance of Vue 2.7`, async ({ expect }) => {
+    vi.mocked(VueDemi.getCurrentInstance).mockReturnValueOnce({ proxy: {} } as ReturnType<typeof VueDemi.getCurrentInstance>)
+
+    const error = new DependencyNotProvidedError('Test')
+
+    expect(error.componentHierarchy).toEqual([])
+    expect(error.message).toBe('UseDependencyInjection value `Test` is not provided')
+  })
+
+  it(`override options with throwOnNoProvider true`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(initializer, { key: 'test', ...optionsWithInjectDefault })
+    const [ParentComponent, _] = createComponents(() => undefined, () => u({ throwOnNoProvider: true }))
+
+    expect(() => mount(ParentComponent)).toThrow(/value `test` is not provided/)
   })
 })
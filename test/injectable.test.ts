@@ -0,0 +1,142 @@
+import { mount } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { defineComponent, h } from 'vue'
+
+import { createComponent, mountComponents } from '#/components'
+import defineUseDependencyInjection, { DependencyNotProvidedError, createToken, defineInjectable } from '~'
+
+import type { App } from 'vue'
+
+export class HttpClient {
+  constructor(readonly baseUrl: string) {}
+}
+
+export class UserService {
+  constructor(readonly http: HttpClient, readonly apiUrl: string) {}
+}
+
+export const API_URL = createToken<string>('API_URL')
+
+export const useHttpClient = defineUseDependencyInjection(() => new HttpClient('https://http'))
+
+/**
+ * The app level provide of the token the classes depend on
+ */
+const apiUrl = { provide: { [API_URL as symbol]: 'https://api' } }
+
+// @vitest-environment jsdom
+describe.concurrent(`defineInjectable correct behavior`, () => {
+  it(`constructs the class with its dependencies, one instance per provider`, async ({ expect }) => {
+    const useUserService = defineInjectable(UserService, { dependencies: [useHttpClient, API_URL] })
+    let provided: UserService | undefined
+    const injected: (UserService | undefined)[] = []
+    mountComponents(() => {
+      provided = useUserService('provide')
+    }, () => injected.push(useUserService(), useUserService()), apiUrl)
+
+    expect(provided).toBeInstanceOf(UserService)
+    expect(provided?.http.baseUrl).toBe('https://http')
+    expect(provided?.apiUrl).toBe('https://api')
+    expect(injected).toEqual([provided, provided])
+    expect(injected[0]).toBe(provided)
+  })
+
+  it(`transient constructs a new instance for each inject`, async ({ expect }) => {
+    const useUserService = defineInjectable(UserService, { dependencies: [useHttpClient, API_URL], lifetime: 'transient' })
+    let provided: UserService | undefined
+    const injected: (UserService | undefined)[] = []
+    mountComponents(() => {
+      provided = useUserService('provide')
+    }, () => injected.push(useUserService(), useUserService()), apiUrl)
+
+    expect(injected).toHaveLength(2)
+    expect(injected[0]).toBeInstanceOf(UserService)
+    expect(injected[0]).not.toBe(injected[1])
+    expect(injected[0]).not.toBe(provided)
+    // dependencies are resolved once by the provider
+    expect(injected[0]?.http).toBe(provided?.http)
+  })
+
+  it(`transient instances are injected with the inject option`, async ({ expect }) => {
+    const useUserService = defineInjectable(UserService, { dependencies: [useHttpClient, API_URL], lifetime: 'transient' })
+    const OptionsComponent = defineComponent({
+      inject: { injected: { from: useUserService.key } },
+      render: () => null,
+    })
+    const wrapper = mount(createComponent(() => useUserService('provide'), OptionsComponent, OptionsComponent), { global: apiUrl })
+    const injected = wrapper.findAllComponents(OptionsComponent).map(child => (child.vm as unknown as { injected: { get: () => UserService } }).injected.get())
+
+    expect(injected[0]).toBeInstanceOf(UserService)
+    expect(injected[0]).not.toBe(injected[1])
+  })
+
+  it(`transient instances are disposed with their injector`, async ({ expect }) => {
+    const dispose = vi.fn()
+    const useHttp = defineInjectable(HttpClient, { dependencies: [API_URL], lifetime: 'transient', dispose })
+    const injected: (HttpClient | undefined)[] = []
+    const [wrapper] = mountComponents(() => useHttp('provide'), () => injected.push(useHttp()), apiUrl)
+
+    wrapper.unmount()
+
+    expect(dispose).toHaveBeenCalledTimes(2)
+    expect(dispose).toHaveBeenCalledWith(injected[0])
+  })
+
+  it(`transient providers keep the provide options and validate their own instance`, async ({ expect }) => {
+    const useHttp = defineInjectable(HttpClient, {
+      dependencies: [API_URL],
+      lifetime: 'transient',
+      validate: (value): value is HttpClient => value instanceof HttpClient && value.baseUrl.startsWith('https'),
+    })
+    let provided: HttpClient | undefined
+    const injected: (HttpClient | undefined)[] = []
+    mountComponents(() => {
+      provided = useHttp('provide', undefined, { scope: 'layout' })
+    }, () => injected.push(useHttp({ scope: 'layout' }), useHttp({ scope: 'layout' })), apiUrl)
+
+    expect(injected[0]).toBeInstanceOf(HttpClient)
+    expect(injected[0]).not.toBe(injected[1])
+    expect(injected[0]).not.toBe(provided)
+    expect(() => mountComponents(() => useHttp('provide', () => new HttpClient('http://insecure')), undefined, apiUrl)).toThrow(/`HttpClient` is invalid/)
+  })
+
+  it(`transient dependencies provided alongside keep their lifetime`, async ({ expect }) => {
+    const useHttp = defineInjectable(HttpClient, { dependencies: [API_URL], lifetime: 'transient' })
+    const useUserService = defineInjectable(UserService, { dependencies: [useHttp, API_URL] })
+    let provided: UserService | undefined
+    const injected: (HttpClient | undefined)[] = []
+    mountComponents(() => {
+      provided = useUserService('provide')
+    }, () => injected.push(useHttp(), useHttp()), apiUrl)
+
+    expect(injected[0]).toBeInstanceOf(HttpClient)
+    expect(injected[0]).not.toBe(injected[1])
+    expect(injected[0]).not.toBe(provided?.http)
+  })
+
+  it(`transient install provides the factory at the app level`, async ({ expect }) => {
+    const useHttp = defineInjectable(HttpClient, { dependencies: [API_URL], lifetime: 'transient', throwOnNoProvider: true })
+    const injected: HttpClient[] = []
+    const [ChildA, ChildB] = [0, 1].map(() => defineComponent({
+      setup() {
+        injected.push(useHttp())
+        return () => null
+      },
+    }))
+
+    const apiUrlPlugin = { install: (app: App) => app.provide(API_URL, 'https://app') }
+
+    mount(() => [h(ChildA), h(ChildB)], { global: { plugins: [apiUrlPlugin, useHttp] } })
+
+    expect(injected).toHaveLength(2)
+    expect(injected[0]).not.toBe(injected[1])
+    expect(injected[0].baseUrl).toBe('https://app')
+  })
+
+  it(`missing tokens are not provided`, async ({ expect }) => {
+    const useUserService = defineInjectable(UserService, { dependencies: [useHttpClient, createToken<string>('MISSING_URL')] })
+
+    expect(() => mountComponents(() => useUserService('provide'), undefined, apiUrl)).toThrow(DependencyNotProvidedError)
+    expect(() => mountComponents(() => useUserService('provide'), undefined, apiUrl)).toThrow(/`MISSING_URL` is not provided/)
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, vi } from 'vitest'
+
+import { mountComponents } from '#/components'
+import defineUseDependencyInjection, { DependencyNotProvidedError, addInterceptor, createInterceptorPlugin } from '~'
+
+interface Service {
+  name: string
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`interceptors correct behavior`, () => {
+  it(`onProvide receives the provided value, its provider and the initializer duration`, async ({ expect }) => {
+    const onProvide = vi.fn()
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'service' }), { name: 'Service' })
+    const [wrapper] = mountComponents(() => u('provide'), () => {}, { plugins: [createInterceptorPlugin({ onProvide })] })
+
+    expect(onProvide).toHaveBeenCalledOnce()
+    const [name, value, instance, info] = onProvide.mock.calls[0]
+    expect(name).toBe('Service')
+    expect(value).toEqual({ name: 'service' })
+    expect(instance).toBe(wrapper.vm.$)
+    expect(info.duration).toBeGreaterThanOrEqual(0)
+  })
+
+  it(`onProvide can replace the provided value`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'service' }))
+    let provided: Service | undefined
+    let injected: Service | undefined
+    mountComponents(() => {
+      provided = u('provide')
+    }, () => {
+      injected = u()
+    }, { plugins: [createInterceptorPlugin({ onProvide: (_, value) => ({ name: `traced ${(value as Service).name}` }) })] })
+
+    expect(provided).toEqual({ name: 'traced service' })
+    expect(injected).toBe(provided)
+  })
+
+  it(`onProvide is called when a lazy value is initialized`, async ({ expect }) => {
+    const onProvide = vi.fn()
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'lazy' }))
+    mountComponents(() => {
+      u('provideLazy')
+      expect(onProvide).not.toHaveBeenCalled()
+    }, () => u(), { plugins: [createInterceptorPlugin({ onProvide })] })
+
+    expect(onProvide).toHaveBeenCalledOnce()
+    expect(onProvide.mock.calls[0][1]).toEqual({ name: 'lazy' })
+  })
+
+  it(`onInject receives the source and can replace the injected value`, async ({ expect }) => {
+    const onInject = vi.fn((_name: string, source: string) => source === 'missing' ? { name: 'fallback' } : undefined)
+    const u = defineUseDependencyInjection<Service>({ name: 'Service' })
+    const withDefault = defineUseDependencyInjection<Service>({ name: 'WithDefault', injectDefault: { name: 'default' } })
+    let injected: Service | undefined
+    mountComponents(() => {}, () => {
+      injected = u()
+      withDefault()
+    }, { plugins: [createInterceptorPlugin({ onInject })] })
+
+    expect(onInject.mock.calls).toEqual([
+      ['Service', 'missing', undefined],
+      ['WithDefault', 'default', { name: 'default' }],
+    ])
+    expect(injected).toEqual({ name: 'fallback' })
+  })
+
+  it(`onError is called once before the error is rethrown`, async ({ expect }) => {
+    const onError = vi.fn()
+    const useName = defineUseDependencyInjection<string>({ name: 'Name', throwOnNoProvider: true })
+    const u = defineUseDependencyInjection(({ name }) => ({ name }), { name: 'Service', dependencies: { name: useName } })
+
+    expect(() => mountComponents(() => u('provide'), () => {}, { plugins: [createInterceptorPlugin({ onError })] })).toThrow(DependencyNotProvidedError)
+    expect(onError).toHaveBeenCalledOnce()
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(DependencyNotProvidedError)
+    expect(onError.mock.calls[0][1]).toBe('Name')
+  })
+
+  it(`app-wide interceptors only apply to their app`, async ({ expect }) => {
+    const onInject = vi.fn()
+    const u = defineUseDependencyInjection<Service>()
+    mountComponents(() => {}, () => u(), { plugins: [createInterceptorPlugin({ onInject })] })
+    mountComponents(() => {}, () => u())
+
+    expect(onInject).toHaveBeenCalledOnce()
+  })
+
+  it(`global interceptors apply to every app until removed`, async ({ expect }) => {
+    const onProvide = vi.fn()
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'service' }), { name: 'GlobalService' })
+    const remove = addInterceptor({
+      onProvide: (name, value) => {
+        if (name === 'GlobalService') onProvide(value)
+      },
+    })
+    mountComponents(() => u('provide'), () => {})
+    mountComponents(() => u('provide'), () => {})
+    remove()
+    mountComponents(() => u('provide'), () => {})
+
+    expect(onProvide).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,94 @@
+import { flushPromises } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+
+import { mountComponents } from '#/components'
+import defineUseDependencyInjection, { defineUseLoadedDependencyInjection } from '~'
+
+import type { AsyncDependencyHandle } from '~'
+
+interface Renderer {
+  format: string
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`defineUseLoadedDependencyInjection correct behavior`, () => {
+  it(`loads the initializer on provide, injectors see it loading`, async ({ expect }) => {
+    const loader = vi.fn(async () => ({ default: () => ({ format: 'pdf' }) }))
+    const useRenderer = defineUseLoadedDependencyInjection<Renderer>(loader)
+    let provided: Promise<Renderer> | undefined
+    let handle: AsyncDependencyHandle<Renderer | undefined> | undefined
+    mountComponents(() => provided = useRenderer('provide'), () => handle = useRenderer('handle'))
+
+    expect(loader).toHaveBeenCalledOnce()
+    expect(handle?.status).toBe('pending')
+    await flushPromises()
+
+    expect(handle?.status).toBe('ready')
+    expect(handle?.value).toEqual({ format: 'pdf' })
+    expect(await provided).toBe(handle?.value)
+  })
+
+  it(`loads the initializer on first inject in provideLazy mode`, async ({ expect }) => {
+    const loader = vi.fn(async () => () => ({ format: 'pdf' }))
+    const useRenderer = defineUseLoadedDependencyInjection<Renderer>(loader)
+    mountComponents(() => useRenderer('provideLazy'))
+    await flushPromises()
+
+    expect(loader).not.toHaveBeenCalled()
+
+    let injected: Promise<Renderer | undefined> | undefined
+    mountComponents(() => useRenderer('provideLazy'), () => injected = useRenderer())
+
+    expect(loader).toHaveBeenCalledOnce()
+    expect(await injected).toEqual({ format: 'pdf' })
+  })
+
+  it(`prefetch loads the initializer once`, async ({ expect }) => {
+    const loader = vi.fn(async () => ({ default: () => ({ format: 'pdf' }) }))
+    const useRenderer = defineUseLoadedDependencyInjection<Renderer>(loader)
+
+    await useRenderer.prefetch()
+    let provided: Promise<Renderer> | undefined
+    mountComponents(() => provided = useRenderer('provide'))
+
+    expect(loader).toHaveBeenCalledOnce()
+    expect(await provided).toEqual({ format: 'pdf' })
+  })
+
+  it(`failed loads are reported to injectors and loaded again`, async ({ expect }) => {
+    const error = new Error('chunk failed')
+    const loader = vi.fn()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValue({ default: () => ({ format: 'pdf' }) })
+    const useRenderer = defineUseLoadedDependencyInjection<Renderer>(loader)
+
+    await expect(useRenderer.prefetch()).resolves.toBeUndefined()
+    let handle: AsyncDependencyHandle<Renderer | undefined> | undefined
+    mountComponents(() => useRenderer('provide').catch(() => {}), () => handle = useRenderer('handle'))
+    await flushPromises()
+
+    expect(loader).toHaveBeenCalledTimes(2)
+    expect(handle?.status).toBe('ready')
+
+    const failing = defineUseLoadedDependencyInjection<Renderer>(async () => {
+      throw error
+    })
+    mountComponents(() => failing('provide').catch(() => {}), () => handle = failing('handle'))
+    await flushPromises()
+
+    expect(handle?.status).toBe('error')
+    expect(handle?.error).toBe(error)
+  })
+
+  it(`initializer receives dependencies resolved by the provider`, async ({ expect }) => {
+    const useFormat = defineUseDependencyInjection(() => 'svg')
+    const useRenderer = defineUseLoadedDependencyInjection(
+      async () => ({ default: ({ format }: { format: string }) => ({ format }) }),
+      { dependencies: { format: useFormat } },
+    )
+    let provided: Promise<Renderer | undefined> | undefined
+    mountComponents(() => provided = useRenderer('provide'))
+
+    expect(await provided).toEqual({ format: 'svg' })
+  })
+})
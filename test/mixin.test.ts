@@ -0,0 +1,78 @@
+import { mount } from '@vue/test-utils'
+import { describe, it } from 'vitest'
+import { defineComponent, h } from 'vue'
+
+import defineUseDependencyInjection, { DependencyNotProvidedError } from '~'
+
+interface Service {
+  name: string
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection mixin correct behavior`, () => {
+  it(`injects the value as a computed property`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'service' }))
+    const Child = defineComponent({
+      mixins: [u.mixin('service')],
+      render() {
+        return h('span', this.service?.name)
+      },
+    })
+
+    const wrapper = mount(defineComponent({
+      setup() {
+        u('provide')
+        return () => h(Child)
+      },
+    }))
+
+    expect(wrapper.text()).toBe('service')
+  })
+
+  it(`provides the value in provide mode`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>()
+    let injected: Service | undefined
+    const Child = defineComponent({
+      setup() {
+        injected = u()
+        return () => null
+      },
+    })
+    const Parent = defineComponent({
+      mixins: [u.mixin('service', 'provide', () => ({ name: 'provided' }))],
+      render: () => h(Child),
+    })
+
+    const wrapper = mount(Parent)
+
+    expect(injected).toEqual({ name: 'provided' })
+    expect(wrapper.vm.service).toBe(injected)
+  })
+
+  it(`keeps injectDefault and throwOnNoProvider behavior`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>({ name: 'Service', throwOnNoProvider: true })
+    const WithDefault = defineComponent({
+      mixins: [u.mixin('service', { injectDefault: { name: 'default' } })],
+      render: () => null,
+    })
+    const Strict = defineComponent({
+      mixins: [u.mixin('service')],
+      render: () => null,
+    })
+
+    expect(mount(WithDefault).vm.service).toEqual({ name: 'default' })
+    expect(() => mount(Strict)).toThrow(DependencyNotProvidedError)
+  })
+
+  it(`key works with the inject option`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'service' }))
+    const Child = defineComponent({
+      inject: { service: { from: u.key as symbol } },
+      render: () => null,
+    })
+
+    const wrapper = mount(Child, { global: { plugins: [u] } })
+
+    expect((wrapper.vm as unknown as { service: Service }).service).toEqual({ name: 'service' })
+  })
+})
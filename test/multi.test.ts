@@ -0,0 +1,104 @@
+import { mount } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { effectScope } from 'vue'
+
+import { createComponent, mountComponents } from '#/components'
+import defineUseDependencyInjection, { createContainer, defineUseMultiDependencyInjection } from '~'
+
+interface MenuItem {
+  label: string
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useMultiDependencyInjection correct behavior`, () => {
+  it(`inject returns contributions from root to nearest ancestor`, async ({ expect }) => {
+    const u = defineUseMultiDependencyInjection<MenuItem>()
+    let items: readonly MenuItem[] = []
+    const Child = createComponent(() => {
+      items = u().value
+    })
+    const Middle = createComponent(() => u('provide', () => ({ label: 'middle' })), Child)
+    mount(createComponent(() => u('provide', () => ({ label: 'root' })), Middle))
+
+    expect(items).toEqual([{ label: 'root' }, { label: 'middle' }])
+  })
+
+  it(`several provides in a component all contribute`, async ({ expect }) => {
+    const u = defineUseMultiDependencyInjection<MenuItem>()
+    let items: readonly MenuItem[] = []
+    const Child = createComponent(() => {
+      items = u('inject').value
+    })
+    mount(createComponent(() => {
+      u('provide', () => ({ label: 'a' }))
+      u('provide', () => ({ label: 'b' }))
+    }, Child))
+
+    expect(items).toEqual([{ label: 'a' }, { label: 'b' }])
+  })
+
+  it(`inject returns empty collection without provider`, async ({ expect }) => {
+    const u = defineUseMultiDependencyInjection<MenuItem>()
+    let items: readonly MenuItem[] | undefined
+    mount(createComponent(() => {
+      items = u().value
+    }))
+
+    expect(items).toEqual([])
+  })
+
+  it(`contribution is removed when the scope that provided it is disposed`, async ({ expect }) => {
+    const u = defineUseMultiDependencyInjection<MenuItem>()
+    const scope = effectScope()
+    let labels: () => string[] = () => []
+    const Child = createComponent(() => {
+      const items = u()
+      labels = () => items.value.map(item => item.label)
+    })
+    mount(createComponent(() => {
+      u('provide', () => ({ label: 'a' }))
+      scope.run(() => u('provide', () => ({ label: 'b' })))
+    }, Child))
+
+    expect(labels()).toEqual(['a', 'b'])
+    scope.stop()
+    expect(labels()).toEqual(['a'])
+  })
+
+  it(`contribution is disposed when its contributor unmounts`, async ({ expect }) => {
+    const dispose = vi.fn()
+    const u = defineUseMultiDependencyInjection<MenuItem>(() => ({ label: 'default' }), { dispose })
+    const [wrapper] = mountComponents(() => u('provide'))
+
+    expect(dispose).not.toHaveBeenCalled()
+    wrapper.unmount()
+    expect(dispose).toHaveBeenCalledWith({ label: 'default' })
+  })
+
+  it(`initializer receives dependencies`, async ({ expect }) => {
+    const useLocale = defineUseDependencyInjection(() => 'en')
+    const u = defineUseMultiDependencyInjection(({ locale }) => ({ label: `settings (${locale})` }), { dependencies: { locale: useLocale } })
+    let items: readonly MenuItem[] = []
+    const Child = createComponent(() => {
+      items = u().value
+    })
+    mount(createComponent(() => u('provide'), Child))
+
+    expect(items).toEqual([{ label: 'settings (en)' }])
+  })
+
+  it(`contributes in containers and their children`, async ({ expect }) => {
+    const u = defineUseMultiDependencyInjection<MenuItem>()
+    const container = createContainer()
+    const child = container.createChild()
+    container.run(() => u('provide', () => ({ label: 'parent' })))
+    child.run(() => u('provide', () => ({ label: 'child' })))
+
+    expect(child.run(() => u().value)).toEqual([{ label: 'parent' }, { label: 'child' }])
+    expect(container.run(() => u().value)).toEqual([{ label: 'parent' }])
+
+    const items = child.run(() => u())
+    container.run(() => u('provide', () => ({ label: 'parent 2' })))
+    expect(items.value).toEqual([{ label: 'parent' }, { label: 'parent 2' }, { label: 'child' }])
+  })
+})
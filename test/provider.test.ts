@@ -0,0 +1,106 @@
+import { mount } from '@vue/test-utils'
+import { describe, it } from 'vitest'
+import { defineComponent } from 'vue'
+
+import defineUseDependencyInjection, { DependencyProviders } from '~'
+
+interface Service {
+  name: string
+}
+
+function createInjector<T>(inject: () => T) {
+  const injected: T[] = []
+  const Injector = defineComponent({
+    setup() {
+      injected.push(inject())
+      return () => null
+    },
+  })
+  return [Injector, injected] as const
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection Provider correct behavior`, () => {
+  it(`provides to the default slot and exposes the value`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'default' }))
+    const [Injector, injected] = createInjector(() => u())
+
+    const wrapper = mount({
+      components: { Provider: u.Provider, Injector },
+      template: `
+        <Provider v-slot="{ value }">
+          <span>{{ value.name }}</span>
+          <Injector/>
+        </Provider>
+      `,
+    })
+
+    expect(wrapper.text()).toBe('default')
+    expect(injected).toEqual([{ name: 'default' }])
+  })
+
+  it(`each Provider provides a fresh value`, async ({ expect }) => {
+    let count = 0
+    const u = defineUseDependencyInjection<Service>(() => ({ name: `service ${count++}` }))
+    const [Injector, injected] = createInjector(() => u())
+
+    mount({
+      components: { Provider: u.Provider, Injector },
+      template: `
+        <Provider><Injector/></Provider>
+        <Provider><Injector/></Provider>
+      `,
+    })
+
+    expect(injected).toEqual([{ name: 'service 0' }, { name: 'service 1' }])
+  })
+
+  it(`value and initializer props override the default initializer`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>(() => ({ name: 'default' }))
+    const [Injector, injected] = createInjector(() => u())
+
+    mount({
+      components: { Provider: u.Provider, Injector },
+      setup: () => ({ value: { name: 'value' }, initializer: () => ({ name: 'initializer' }) }),
+      template: `
+        <Provider :value="value"><Injector/></Provider>
+        <Provider :initializer="initializer"><Injector/></Provider>
+      `,
+    })
+
+    expect(injected).toEqual([{ name: 'value' }, { name: 'initializer' }])
+  })
+
+  it(`not initialized`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Service>({ name: 'Service' })
+
+    expect(() => mount({
+      components: { Provider: u.Provider },
+      template: `<Provider/>`,
+    })).toThrow(/`Service` is not initialized/)
+    expect(u.Provider).toHaveProperty('name', 'ServiceProvider')
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`dependencyProviders correct behavior`, () => {
+  it(`provides many composables in order`, async ({ expect }) => {
+    const useName = defineUseDependencyInjection(() => 'name')
+    const useService = defineUseDependencyInjection(({ name }) => ({ name: `service of ${name}` }), { dependencies: { name: useName } })
+    const [Injector, injected] = createInjector(() => useService())
+
+    const wrapper = mount({
+      components: { DependencyProviders, Injector },
+      setup: () => ({ providers: [[useName, () => 'other name'], useService] }),
+      template: `
+        <DependencyProviders :providers="providers" v-slot="{ values: [name, service] }">
+          <span>{{ name }} / {{ service.name }}</span>
+          <Injector/>
+        </DependencyProviders>
+      `,
+    })
+
+    expect(wrapper.text()).toBe('other name / service of other name')
+    expect(injected).toEqual([{ name: 'service of other name' }])
+  })
+})
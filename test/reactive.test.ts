@@ -0,0 +1,157 @@
+import { mount } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { computed, defineComponent, h, isReadonly, nextTick } from 'vue'
+
+import { mountComponents } from '#/components'
+import defineUseDependencyInjection, { DependencyValidationError } from '~'
+
+import type { Ref } from 'vue'
+
+interface Tenant {
+  id: string
+  settings: { theme: string }
+}
+
+class Counter {
+  #count = 0
+
+  increment() {
+    return ++this.#count
+  }
+}
+
+function isTenant(value: unknown): value is Tenant {
+  return typeof (value as Tenant | undefined)?.id === 'string'
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection provideReactive mode correct behavior`, () => {
+  it(`injectors follow the value swapped by the provider`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Tenant>(() => ({ id: 'a', settings: { theme: 'light' } }))
+    let tenant!: Ref<Tenant>
+    let injected: Tenant | undefined
+    const Child = defineComponent({
+      setup() {
+        injected = u()
+        const id = computed(() => injected?.id)
+        return () => h('span', id.value)
+      },
+    })
+    const wrapper = mount(defineComponent({
+      setup() {
+        tenant = u('provideReactive')
+        return () => h(Child)
+      },
+    }))
+    const handle = injected!
+
+    expect(wrapper.text()).toBe('a')
+
+    tenant.value = { id: 'b', settings: { theme: 'dark' } }
+    await nextTick()
+
+    expect(wrapper.text()).toBe('b')
+    expect(injected).toBe(handle)
+    expect(injected?.settings.theme).toBe('dark')
+    expect(Object.keys(injected!)).toEqual(['id', 'settings'])
+  })
+
+  it(`methods run on the current value`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(() => new Counter())
+    let counter!: Ref<Counter>
+    let injected: Counter | undefined
+    mountComponents(() => {
+      counter = u('provideReactive')
+    }, () => {
+      injected = u()
+    })
+
+    expect(injected?.increment()).toBe(1)
+    expect(injected).toBeInstanceOf(Counter)
+
+    counter.value = new Counter()
+
+    expect(injected?.increment()).toBe(1)
+  })
+
+  it(`swapped values are checked and the previous ones disposed`, async ({ expect }) => {
+    const dispose = vi.fn()
+    const u = defineUseDependencyInjection({ name: 'Tenant', validate: isTenant, dispose })
+    const first = { id: 'a', settings: { theme: 'light' } }
+    let tenant!: Ref<Tenant>
+    const [wrapper] = mountComponents(() => {
+      tenant = u('provideReactive', () => first)
+    }, () => {})
+
+    tenant.value = { id: 'b', settings: { theme: 'dark' } }
+
+    expect(dispose).toHaveBeenCalledWith(first)
+    expect(() => {
+      tenant.value = {} as Tenant
+    }).toThrow(DependencyValidationError)
+    expect(tenant.value.id).toBe('b')
+
+    wrapper.unmount()
+    expect(dispose).toHaveBeenLastCalledWith(tenant.value)
+  })
+
+  it(`values must be objects`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(() => 'tenant', { name: 'TenantId' })
+
+    expect(() => mountComponents(() => u('provideReactive'), () => {})).toThrow(/requires an object value, `TenantId` is string/)
+  })
+})
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection readonly option correct behavior`, () => {
+  it(`injectors get a readonly view of a reactive value`, async ({ expect }) => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const u = defineUseDependencyInjection<Tenant>(() => ({ id: 'a', settings: { theme: 'light' } }), { readonly: true })
+    let tenant!: Ref<Tenant>
+    let injected: Tenant | undefined
+    mountComponents(() => {
+      tenant = u('provideReactive')
+    }, () => {
+      injected = u()
+    })
+
+    injected!.settings.theme = 'dark'
+    expect(injected?.settings.theme).toBe('light')
+    expect(isReadonly(injected?.settings)).toBe(true)
+
+    tenant.value.settings.theme = 'dark'
+    expect(injected?.settings.theme).toBe('dark')
+    warn.mockRestore()
+  })
+
+  it(`injectors get a readonly view of a provided value`, async ({ expect }) => {
+    const u = defineUseDependencyInjection<Tenant>(() => ({ id: 'a', settings: { theme: 'light' } }), { readonly: true })
+    let provided!: Tenant
+    let injected: Tenant | undefined
+    mountComponents(() => {
+      provided = u('provide')
+    }, () => {
+      injected = u()
+    })
+
+    expect(isReadonly(provided)).toBe(false)
+    expect(isReadonly(injected)).toBe(true)
+    expect(injected).toEqual(provided)
+  })
+
+  it(`injectors get a readonly view of a value provided as a dependency`, async ({ expect }) => {
+    const useTenant = defineUseDependencyInjection<Tenant>(() => ({ id: 'a', settings: { theme: 'light' } }), { readonly: true })
+    const useApi = defineUseDependencyInjection(({ tenant }) => ({ tenant }), { dependencies: { tenant: useTenant } })
+    let api!: { tenant: Tenant }
+    let injected: Tenant | undefined
+    mountComponents(() => {
+      api = useApi('provide')
+    }, () => {
+      injected = useTenant()
+    })
+
+    expect(isReadonly(api.tenant)).toBe(false)
+    expect(isReadonly(injected)).toBe(true)
+    expect(injected).toEqual(api.tenant)
+  })
+})
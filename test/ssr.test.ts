@@ -0,0 +1,154 @@
+import { describe, it, vi } from 'vitest'
+import { createApp, createSSRApp, defineComponent, h } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+
+import defineUseDependencyInjection, { createDependencyState, defineUseAsyncDependencyInjection } from '~'
+
+import type { Component } from 'vue'
+
+class Counter {
+  constructor(public count = 0) {}
+}
+
+function counterComponent(useCounter: () => Counter) {
+  return defineComponent({
+    setup() {
+      const counter = useCounter()
+      return () => h('span', counter.count)
+    },
+  })
+}
+
+async function renderOnServer(root: Component, setup?: (app: ReturnType<typeof createSSRApp>) => void) {
+  const app = createSSRApp(root)
+  const dependencyState = createDependencyState()
+  app.use(dependencyState)
+  setup?.(app)
+  const html = await renderToString(app)
+  // the payload goes through JSON like it would in a page
+  return { html, state: JSON.parse(JSON.stringify(dependencyState.serialize())) as Record<string, unknown> }
+}
+
+function hydrateOnClient(root: Component, html: string, state: Record<string, unknown>, setup?: (app: ReturnType<typeof createSSRApp>) => void) {
+  const container = document.createElement('div')
+  container.innerHTML = html
+  const app = createSSRApp(root)
+  app.use(createDependencyState(state))
+  setup?.(app)
+  app.mount(container)
+  return container
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection SSR correct behavior`, () => {
+  it(`initializers run per request`, async ({ expect }) => {
+    const initializer = vi.fn(() => new Counter())
+    const u = defineUseDependencyInjection(initializer)
+    const instances: Counter[] = []
+    const Root = counterComponent(() => {
+      const counter = u('provide')
+      instances.push(counter)
+      counter.count++
+      return counter
+    })
+
+    const first = await renderOnServer(Root)
+    const second = await renderOnServer(Root)
+
+    expect(initializer).toHaveBeenCalledTimes(2)
+    expect(instances[0]).not.toBe(instances[1])
+    expect(first.html).toBe('<span>1</span>')
+    expect(second.html).toBe('<span>1</span>')
+  })
+
+  it(`serializes provided values in render order`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(() => new Counter(1), { name: 'Counter', serialize: counter => counter.count, hydrate: count => new Counter(count as number) })
+    const Child = counterComponent(() => u('provide', () => new Counter(2)))
+    const Root = defineComponent({
+      setup() {
+        u('provide')
+        return () => h('div', [h(Child)])
+      },
+    })
+
+    const { state } = await renderOnServer(Root)
+
+    expect(state).toEqual({ 'Counter': 1, 'Counter:1': 2 })
+  })
+
+  it(`client provide hydrates instead of initializing`, async ({ expect }) => {
+    const initializer = vi.fn(() => new Counter(42))
+    const hydrate = vi.fn((count: unknown) => new Counter(count as number))
+    const u = defineUseDependencyInjection(initializer, { name: 'Counter', serialize: counter => counter.count, hydrate })
+    const Root = counterComponent(() => u('provide'))
+
+    const { html, state } = await renderOnServer(Root)
+    const container = hydrateOnClient(Root, html, state)
+
+    expect(hydrate).toHaveBeenCalledWith(42)
+    // only on the server
+    expect(initializer).toHaveBeenCalledOnce()
+    expect(container.innerHTML).toBe('<span>42</span>')
+  })
+
+  it(`app level values are hydrated`, async ({ expect }) => {
+    const u = defineUseDependencyInjection(() => new Counter(7), { name: 'Counter', serialize: counter => counter.count, hydrate: count => new Counter(count as number) })
+    const Root = counterComponent(() => u({ throwOnNoProvider: true }))
+
+    const { html, state } = await renderOnServer(Root, app => app.use(u))
+    let hydrated: Counter | undefined
+    hydrateOnClient(Root, html, state, (app) => {
+      hydrated = u.install(app)
+    })
+
+    expect(state).toEqual({ Counter: 7 })
+    expect(hydrated?.count).toBe(7)
+  })
+
+  it(`initialized without state`, async ({ expect }) => {
+    const hydrate = vi.fn(() => new Counter())
+    const u = defineUseDependencyInjection(() => new Counter(3), { name: 'Counter', serialize: counter => counter.count, hydrate })
+    const container = document.createElement('div')
+    createApp(counterComponent(() => u('provide'))).mount(container)
+
+    expect(hydrate).not.toHaveBeenCalled()
+    expect(container.innerHTML).toBe('<span>3</span>')
+  })
+
+  it(`async values are serialized once resolved and hydrated ready`, async ({ expect }) => {
+    const u = defineUseAsyncDependencyInjection(async () => new Counter(5), { name: 'AsyncCounter', serialize: counter => counter.count, hydrate: count => new Counter(count as number) })
+    const Root = defineComponent({
+      async setup() {
+        const counter = await u('provide')
+        return () => h('span', counter.count)
+      },
+    })
+
+    const { html, state } = await renderOnServer(Root)
+    let handleStatus: string | undefined
+    const Child = defineComponent({
+      setup() {
+        const handle = u('handle')!
+        handleStatus = handle.status
+        return () => h('span', handle.value?.count)
+      },
+    })
+    const container = hydrateOnClient(defineComponent({
+      setup() {
+        u('provide')
+        return () => h(Child)
+      },
+    }), html, state)
+
+    expect(html).toBe('<span>5</span>')
+    expect(state).toEqual({ AsyncCounter: 5 })
+    // ready without waiting for the initializer
+    expect(handleStatus).toBe('ready')
+    expect(container.innerHTML).toBe('<span>5</span>')
+  })
+
+  it(`serialize requires a name`, async ({ expect }) => {
+    expect(() => defineUseDependencyInjection(() => new Counter(), { serialize: counter => counter.count, hydrate: () => new Counter() }))
+      .toThrow(/require a name/)
+  })
+})
@@ -0,0 +1,108 @@
+import { flushPromises, mount } from '@vue/test-utils'
+import { describe, it } from 'vitest'
+import { defineComponent, h } from 'vue'
+
+import defineUseDependencyInjection, { defineUseAsyncDependencyInjection } from '~'
+import { DependencyNotMockedError, mockDependencies } from '~/testing'
+
+interface Api {
+  fetch: () => string
+}
+
+const realApi: Api = { fetch: () => 'real' }
+const fakeApi: Api = { fetch: () => 'fake' }
+
+function injector<T>(inject: () => T) {
+  let injected: T
+  const Component = defineComponent({
+    setup() {
+      injected = inject()
+      return () => null
+    },
+  })
+  return [Component, () => injected] as const
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`mockDependencies correct behavior`, () => {
+  it(`provides mocks to mounted components`, async ({ expect }) => {
+    const useApi = defineUseDependencyInjection<Api>({ injectDefault: realApi })
+    const [Component, injected] = injector(() => useApi())
+
+    mount(Component, { global: mockDependencies([[useApi, fakeApi]]).global })
+
+    expect(injected()).toBe(fakeApi)
+  })
+
+  it(`provides ready handles for async composables`, async ({ expect }) => {
+    const useApi = defineUseAsyncDependencyInjection<Api>(async () => realApi)
+    const [Component, injected] = injector(() => useApi('handle'))
+
+    mount(Component, { global: mockDependencies([[useApi, fakeApi]]).global })
+
+    expect(injected()?.status).toBe('ready')
+    await expect(injected()?.promise).resolves.toBe(fakeApi)
+  })
+
+  it(`spies on injected dependencies`, async ({ expect }) => {
+    const useApi = defineUseDependencyInjection<Api>()
+    const useOther = defineUseDependencyInjection<Api>()
+    const [Component] = injector(() => {
+      useApi()
+      return useApi()
+    })
+
+    const dependencies = mockDependencies([[useApi, fakeApi], [useOther, fakeApi]])
+    mount(Component, { global: dependencies.global })
+
+    expect(dependencies.wasInjected(useApi)).toBe(true)
+    expect(dependencies.injectCount(useApi)).toBe(2)
+    expect(dependencies.wasInjected(useOther)).toBe(false)
+    expect(dependencies.injections.map(event => event.source)).toEqual(['provider', 'provider'])
+  })
+
+  it(`only spies on the mounted app`, async ({ expect }) => {
+    const useApi = defineUseDependencyInjection<Api>()
+    const [Component] = injector(() => useApi())
+
+    const dependencies = mockDependencies([[useApi, fakeApi]])
+    mount(Component)
+    const wrapper = mount(Component, { global: dependencies.global })
+    wrapper.unmount()
+    mount(Component)
+    await flushPromises()
+
+    expect(dependencies.injectCount(useApi)).toBe(1)
+  })
+
+  it(`strict mode throws when an injected dependency is not mocked`, async ({ expect }) => {
+    const useApi = defineUseDependencyInjection<Api>({ name: 'Api', injectDefault: realApi })
+    const [Component] = injector(() => useApi())
+
+    expect(() => mount(Component, { global: mockDependencies([], { strict: true }).global }))
+      .toThrow(DependencyNotMockedError)
+    expect(() => mount(Component, { global: mockDependencies([], { strict: true }).global }))
+      .toThrow(/`Api` is not mocked/)
+  })
+
+  it(`strict mode allows dependencies provided in the mounted tree`, async ({ expect }) => {
+    const useApi = defineUseDependencyInjection<Api>(() => realApi)
+    const [Child, injected] = injector(() => useApi())
+    const Parent = defineComponent({
+      setup() {
+        useApi('provide')
+        return () => h(Child)
+      },
+    })
+
+    mount(Parent, { global: mockDependencies([], { strict: true }).global })
+
+    expect(injected()).toBe(realApi)
+  })
+
+  it(`throws for composables not defined by the library`, async ({ expect }) => {
+    const useApi = (() => fakeApi) as unknown as Parameters<typeof mockDependencies>[0][number][0]
+
+    expect(() => mockDependencies([[useApi, fakeApi]])).toThrow(TypeError)
+  })
+})
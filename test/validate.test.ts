@@ -0,0 +1,142 @@
+import { flushPromises, mount } from '@vue/test-utils'
+import { describe, it, vi } from 'vitest'
+import { defineComponent } from 'vue'
+
+import { mountComponents } from '#/components'
+import defineUseDependencyInjection, { DependencyValidationError, defineUseAsyncDependencyInjection } from '~'
+
+import type { AsyncDependencyHandle, StandardSchemaV1 } from '~'
+
+export interface Config {
+  apiUrl: string
+}
+
+export function isConfig(value: unknown): value is Config {
+  return typeof (value as Config | undefined)?.apiUrl === 'string'
+}
+
+/**
+ * A minimal Standard Schema, like the ones of Zod or Valibot
+ */
+export const configSchema: StandardSchemaV1<unknown, Config> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: value => isConfig(value)
+      ? { value: { apiUrl: value.apiUrl.replace(/\/$/, '') } }
+      : { issues: [{ message: 'Expected a string', path: [{ key: 'apiUrl' }] }] },
+  },
+}
+
+// @vitest-environment jsdom
+describe.concurrent(`useDependencyInjection validate correct behavior`, () => {
+  it(`valid values are provided and injected, transformed by the schema`, async ({ expect }) => {
+    const u = defineUseDependencyInjection({ key: 'config', validate: configSchema })
+    let injected: Config | undefined
+    mountComponents(() => u('provide', () => ({ apiUrl: 'https://api/' })), () => {
+      injected = u()
+    })
+
+    expect(injected).toEqual({ apiUrl: 'https://api' })
+  })
+
+  it(`invalid values throw at provide time`, async ({ expect }) => {
+    const u = defineUseDependencyInjection({ name: 'Config', validate: configSchema })
+
+    expect(() => mountComponents(() => u('provide', () => ({ apiUrl: 1 }) as unknown as Config), () => {}))
+      .toThrow(DependencyValidationError)
+    expect(() => mountComponents(() => u('provide', () => ({}) as Config), () => {}))
+      .toThrow(/`Config` is invalid: apiUrl: Expected a string/)
+  })
+
+  it(`invalid values provided as a dependency throw at provide time`, async ({ expect }) => {
+    const useConfig = defineUseDependencyInjection(() => ({ apiUrl: 1 }) as unknown as Config, { name: 'Config', validate: configSchema })
+    const useApi = defineUseDependencyInjection(({ config }) => ({ config }), { dependencies: { config: useConfig } })
+
+    expect(() => mountComponents(() => useApi('provide'), () => {}))
+      .toThrow(/`Config` is invalid: apiUrl: Expected a string/)
+  })
+
+  it(`invalid values throw at inject time`, async ({ expect }) => {
+    const u = defineUseDependencyInjection({ key: 'shared-config', name: 'Config', validate: isConfig })
+    const Child = defineComponent({
+      setup() {
+        u()
+        return () => null
+      },
+    })
+
+    // provided by third-party code sharing the string key
+    expect(() => mount(Child, { global: { provide: { 'shared-config': { url: 'https://api' } } } }))
+      .toThrow(/`Config` is invalid: type guard rejected the value/)
+  })
+
+  it(`warn policy warns and keeps the value`, async ({ expect }) => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const u = defineUseDependencyInjection({ name: 'Config', validate: isConfig, onInvalid: 'warn' })
+    let injected: Config | undefined
+    mountComponents(() => u('provide', () => ({}) as Config), () => {
+      injected = u()
+    })
+
+    expect(injected).toEqual({})
+    // through the warn of Vue, followed by the component trace
+    expect(warn.mock.calls[0][0]).toMatch(/`Config` is invalid/)
+    warn.mockRestore()
+  })
+
+  it(`default policy falls back to injectDefault`, async ({ expect }) => {
+    const fallback = { apiUrl: 'https://fallback' }
+    const u = defineUseDependencyInjection({ key: 'fallback-config', validate: isConfig, onInvalid: 'default', injectDefault: fallback })
+    let provided: Config | undefined
+    let injected: Config | undefined
+    mountComponents(() => {
+      provided = u('provide', () => ({}) as Config)
+    }, () => {
+      injected = u()
+    })
+    const Child = defineComponent({
+      setup() {
+        injected = u()
+        return () => null
+      },
+    })
+
+    expect(provided).toBe(fallback)
+    expect(injected).toBe(fallback)
+
+    injected = undefined
+    mount(Child, { global: { provide: { 'fallback-config': { url: 'https://api' } } } })
+    expect(injected).toBe(fallback)
+  })
+
+  it(`default policy without injectDefault throws at provide time`, async ({ expect }) => {
+    const u = defineUseDependencyInjection({ validate: isConfig, onInvalid: 'default' })
+
+    expect(() => mountComponents(() => u('provide', () => ({}) as Config), () => {})).toThrow(DependencyValidationError)
+  })
+
+  it(`async schemas are rejected`, async ({ expect }) => {
+    const asyncSchema: StandardSchemaV1<unknown, Config> = {
+      '~standard': { version: 1, vendor: 'test', validate: async value => ({ value: value as Config }) },
+    }
+    const u = defineUseDependencyInjection({ validate: asyncSchema })
+
+    expect(() => mountComponents(() => u('provide', () => ({ apiUrl: '' })), () => {})).toThrow(/must be synchronous/)
+  })
+
+  it(`async composables check the resolved value, not its handle`, async ({ expect }) => {
+    const valid = defineUseAsyncDependencyInjection(async () => ({ apiUrl: 'https://api/' }), { validate: configSchema })
+    const invalid = defineUseAsyncDependencyInjection(async () => ({}) as Config, { name: 'Config', validate: isConfig })
+    let provided: Promise<Config | undefined> | undefined
+    let handle: AsyncDependencyHandle<Config | undefined> | undefined
+    mountComponents(() => provided = valid('provide'), () => {})
+    mountComponents(() => invalid('provide').catch(() => {}), () => handle = invalid('handle'))
+    await flushPromises()
+
+    expect(await provided).toEqual({ apiUrl: 'https://api' })
+    expect(handle?.status).toBe('error')
+    expect(handle?.error).toBeInstanceOf(DependencyValidationError)
+    expect(handle?.error).toMatchObject({ message: expect.stringMatching(/`Config` is invalid: type guard rejected the value/) })
+  })
+})
@@ -1,6 +1,6 @@
 /// <reference types="vitest" />
 
-import { dependencies, name } from './package.json'
+import { dependencies, name, peerDependencies } from './package.json'
 
 import { defineConfig } from 'vite'
 import dts from 'vite-plugin-dts'
@@ -9,7 +9,8 @@ import path from 'node:path'
 
 const libName = name.replace(/^@.*\//, '')
 
-export default defineConfig({
+// umd does not support multiple entries, so `--mode umd` builds it for the main entry only, after the es and cjs builds
+export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       '~/': `${path.resolve(__dirname, 'src')}/`,
@@ -19,24 +20,42 @@ export default defineConfig({
     },
   },
   build: {
-    lib: {
-      name: libName,
-      entry: 'src/index.ts',
-      fileName: format => `${libName}.${format}.js`,
-      formats: ['es', 'cjs', 'umd'],
-    },
+    lib: mode === 'umd'
+      ? {
+          name: libName,
+          entry: 'src/index.ts',
+          fileName: format => `${libName}.${format}.js`,
+          formats: ['umd'],
+        }
+      : {
+          name: libName,
+          entry: {
+            index: 'src/index.ts',
+            testing: 'src/testing.ts',
+            devtools: 'src/devtools.ts',
+          },
+          fileName: (format, entryName) => `${entryName === 'index' ? libName : entryName}.${format}.js`,
+          formats: ['es', 'cjs'],
+        },
     rollupOptions: {
-      external: Object.keys(dependencies),
+      external: [...Object.keys(dependencies), ...Object.keys(peerDependencies)],
     },
     sourcemap: true,
+    // keeps the es and cjs bundles
+    emptyOutDir: mode !== 'umd',
   },
-  plugins: [
-    dts({
-      rollupTypes: true,
-      include: ['src/**/*'],
-      outDir: '.',
-    }),
-  ],
+  // the es and cjs bundles leave the development checks to the bundler of the app,
+  // the umd bundle is loaded by a script without process, so it is a production build
+  define: mode === 'umd' ? { 'process.env.NODE_ENV': JSON.stringify('production') } : {},
+  plugins: mode === 'umd'
+    ? []
+    : [
+        dts({
+          rollupTypes: true,
+          include: ['src/**/*'],
+          outDir: '.',
+        }),
+      ],
   optimizeDeps: {
     exclude: ['vue-demi'],
   },
@@ -46,4 +65,4 @@ export default defineConfig({
       include: ['src/**'],
     },
   },
-})
+}))